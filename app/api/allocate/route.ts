@@ -0,0 +1,29 @@
+import { HierarchicalAllocator } from "@/lib/hierarchical-allocator";
+import { ConfigValidator } from "@/lib/config-validator";
+import { ApiResponse } from "@/lib/api-response";
+
+// POST /api/allocate
+// Body: an AllocationConfig. Returns the AllocationResult; address counts in
+// the hierarchy (totalAddresses, usableHosts) are decimal strings.
+export async function POST(request: Request) {
+  const body = await ApiResponse.readJSON(request);
+  if (body === undefined) {
+    return ApiResponse.error(400, "invalid_json", "Request body must be valid JSON");
+  }
+
+  const validation = ConfigValidator.validate(body);
+  if (!validation.ok) {
+    return ApiResponse.error(400, "invalid_request", "Allocation config failed validation", validation.issues);
+  }
+
+  try {
+    const result = new HierarchicalAllocator(validation.config).allocate();
+    return ApiResponse.json({ result });
+  } catch (err) {
+    return ApiResponse.error(
+      422,
+      "allocation_failed",
+      err instanceof Error ? err.message : "Allocation failed"
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { HierarchicalAllocator } from "@/lib/hierarchical-allocator";
+import { ConfigValidator, type ValidationIssue } from "@/lib/config-validator";
+import { ApiResponse } from "@/lib/api-response";
+import { SitePlan } from "@/lib/site-plan";
+import { CIDRMath } from "@/lib/cidr-math";
+
+// POST /api/site
+// Body: { config: AllocationConfig, region?: name or code, territory?: 1-based,
+//         site?: 1-based slot, vlanPrefixes?: number[] }
+// Returns one site of the plan with its VLAN layout. Region, territory and
+// site default to the first of each.
+export async function POST(request: Request) {
+  const body = await ApiResponse.readJSON(request);
+  if (body === undefined) {
+    return ApiResponse.error(400, "invalid_json", "Request body must be valid JSON");
+  }
+
+  const { config, region, territory = 1, site = 1, vlanPrefixes = [] } =
+    (typeof body === "object" && body !== null ? body : {}) as Record<string, unknown>;
+
+  const validation = ConfigValidator.validate(config);
+  const issues: ValidationIssue[] = validation.ok
+    ? []
+    : validation.issues.map((i) => ({ ...i, path: i.path ? `config.${i.path}` : "config" }));
+
+  if (region !== undefined && typeof region !== "string") {
+    issues.push({ path: "region", message: "must be a region name or code" });
+  }
+  if (!Number.isInteger(territory) || (territory as number) < 1) {
+    issues.push({ path: "territory", message: "must be an integer >= 1" });
+  }
+  if (!Number.isInteger(site) || (site as number) < 1) {
+    issues.push({ path: "site", message: "must be an integer >= 1" });
+  }
+  if (!Array.isArray(vlanPrefixes) || !vlanPrefixes.every(Number.isInteger)) {
+    issues.push({ path: "vlanPrefixes", message: "must be an array of prefix lengths" });
+  }
+  if (!validation.ok || issues.length > 0) {
+    return ApiResponse.error(400, "invalid_request", "Site request failed validation", issues);
+  }
+
+  let result;
+  try {
+    result = new HierarchicalAllocator(validation.config).allocate();
+  } catch (err) {
+    return ApiResponse.error(
+      422,
+      "allocation_failed",
+      err instanceof Error ? err.message : "Allocation failed"
+    );
+  }
+
+  const pools = SitePlan.pools(result);
+  const wanted = typeof region === "string" ? region.toLowerCase() : undefined;
+  const regionPools = wanted
+    ? pools.filter(
+        (p) =>
+          p.region.name.toLowerCase() === wanted ||
+          p.region.metadata?.code?.toLowerCase() === wanted
+      )
+    : pools.filter((p) => p.region.id === pools[0]?.region.id);
+  if (regionPools.length === 0) {
+    return ApiResponse.error(404, "not_found", `Region "${region}" is not in the plan`);
+  }
+
+  const pool = regionPools.find((p) => p.territoryIndex === territory);
+  if (!pool) {
+    return ApiResponse.error(
+      404,
+      "not_found",
+      `${regionPools[0].region.name} has ${regionPools.length} territories; territory ${territory} does not exist`
+    );
+  }
+
+  // Slots past the end of the territory are rejected before any lookup
+  const slots = CIDRMath.subnetCount(pool.territory.prefix, SitePlan.sitePrefix(result, pool));
+  if (BigInt(site as number) > slots) {
+    return ApiResponse.error(
+      404,
+      "not_found",
+      `${pool.territory.name} has ${slots.toLocaleString("en-US")} site slots; site ${site} does not exist`
+    );
+  }
+
+  const planned = SitePlan.findSite(result, pool.territory.id, site as number);
+  if (!planned) {
+    return ApiResponse.error(
+      404,
+      "not_found",
+      `Site ${site} is not a free or existing site slot in ${pool.territory.name}`
+    );
+  }
+
+  const { vlans } =
+    planned.status === "existing"
+      ? { vlans: [] }
+      : SitePlan.layoutVlans(
+          planned.cidr,
+          SitePlan.poolVlanPrefixes(
+            result,
+            planned,
+            SitePlan.vlanPrefixes(
+              validation.config.vlansPerSite,
+              validation.config.vlanSize,
+              vlanPrefixes as number[]
+            )
+          ),
+          SitePlan.mapper(result)
+        );
+
+  return ApiResponse.json({
+    site: {
+      region: planned.region.name,
+      regionCode: planned.region.metadata?.code,
+      territory: planned.territory.name,
+      territoryCidr: planned.territory.cidr,
+      index: planned.index,
+      name: planned.name,
+      cidr: planned.cidr,
+      ipv6Cidr: planned.ipv6Cidr,
+      status: planned.status,
+      ...(planned.tier ? { tier: planned.tier } : {}),
+    },
+    vlans,
+  });
+}
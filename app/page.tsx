@@ -3,13 +3,27 @@
 import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { AlertTriangle, ArrowLeft, ArrowRight, Network, Moon, Sun } from "lucide-react";
-import { HierarchicalAllocator, type RegionBias, type AllocationResult } from "@/lib/hierarchical-allocator";
+import { AlertTriangle, ArrowLeft, ArrowRight, Check, Link2, Network, Moon, Sun, Wrench } from "lucide-react";
+import { HierarchicalAllocator, type AllocationConfig, type AllocationResult } from "@/lib/hierarchical-allocator";
+import { CIDRMath } from "@/lib/cidr-math";
+import { Brownfield } from "@/lib/brownfield";
+import { TerritoryList } from "@/lib/territory-list";
+import { LevelList } from "@/lib/level-list";
+import { SiteTierList } from "@/lib/site-tier-list";
+import { PlanCodec, type PlanState } from "@/lib/plan-codec";
+import { ProjectStore, type SavedProject } from "@/lib/project-store";
+import { PlanExport } from "@/lib/plan-document";
+import { downloadFile, fileSlug } from "@/lib/utils";
 import { StepIndicator } from "@/components/step-indicator";
 import { ConfigurationForm } from "@/components/configuration-form";
 import { ResultsSummary } from "@/components/results-summary";
 import { HierarchyView } from "@/components/hierarchy-view";
 import { SiteExample } from "@/components/site-example";
+import { CidrTools } from "@/components/cidr-tools";
+import { ProjectLibrary } from "@/components/project-library";
+import { ExportPanel } from "@/components/export-panel";
+import { SiteConfigPanel } from "@/components/site-config";
+import { AddressMapView } from "@/components/address-map";
 import { useTheme } from "next-themes";
 
 const REGION_THEMES = [
@@ -21,10 +35,17 @@ const REGION_THEMES = [
   { name: "Phoenix", code: "PHX" },
 ];
 
+// Built-in name and code of the region at a position
+const themeAt = (i: number) => REGION_THEMES[i] ?? { name: `Region ${i + 1}`, code: "" };
+
 const STEPS = ["Configure", "Analysis", "Hierarchy"];
 
+// Per-territory site counts typed as "120, 40, 40"; empty means an even split
+const parseSiteList = (text: string) => text.split(/[\s,]+/).filter(Boolean).map(Number);
+
 export default function Home() {
   const [currentStep, setCurrentStep] = useState(1);
+  const [showTools, setShowTools] = useState(false);
   
   // Scroll Anchor Ref
   const topRef = useRef<HTMLDivElement>(null);
@@ -37,11 +58,30 @@ export default function Home() {
   const [vlansPerSite, setVlansPerSite] = useState(5);
   const [vlanSize, setVlanSize] = useState(24);
   const [regionRatios, setRegionRatios] = useState<number[]>([1, 1, 1, 1]);
+  const [sizeByDemand, setSizeByDemand] = useState(false);
+  const [growthMultiplier, setGrowthMultiplier] = useState(3);
+  const [regionSites, setRegionSites] = useState<(number | null)[]>([250, 250, 250, 250]);
+  const [territorySitesText, setTerritorySitesText] = useState<string[]>(["", "", "", ""]);
+  const [territoriesText, setTerritoriesText] = useState<string[]>(["", "", "", ""]);
+  const [levelsText, setLevelsText] = useState("");
+  const [siteTiersText, setSiteTiersText] = useState("");
+  const [dualStack, setDualStack] = useState(false);
+  const [ipv6Supernet, setIpv6Supernet] = useState("2001:db8::/32");
+  const [exclusionsText, setExclusionsText] = useState("");
+  const [existingSitesText, setExistingSitesText] = useState("");
+  // Region names and codes; imported plans and saved projects bring their own
+  const [regionThemes, setRegionThemes] = useState(REGION_THEMES);
   
   // Results State
   const [result, setResult] = useState<AllocationResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [vlanPrefixes, setVlanPrefixes] = useState<number[]>([]);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // Project Library State
+  const [projects, setProjects] = useState<SavedProject[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState("");
 
   // Theme
   const { theme, setTheme } = useTheme();
@@ -61,6 +101,17 @@ export default function Home() {
     }
   }, [currentStep]);
 
+  // Switching between IPv4 and IPv6 invalidates the VLAN sizing, so reset it
+  const updateSupernet = (value: string) => {
+    const version = CIDRMath.ipVersion(value);
+    if (version !== CIDRMath.ipVersion(supernet)) {
+      setVlanSize(version === 6 ? 64 : 24);
+      setVlanPrefixes([]);
+      if (version === 6) setDualStack(false);
+    }
+    setSupernet(value);
+  };
+
   const updateRegionCount = (count: number) => {
     setRegionCount(count);
     setRegionRatios((prev) => {
@@ -70,6 +121,48 @@ export default function Home() {
       }
       return newRatios.slice(0, count);
     });
+    const resize = <T,>(list: T[], fill: T) =>
+      count > list.length ? [...list, ...Array(count - list.length).fill(fill)] : list.slice(0, count);
+    updateDemand(resize(regionSites, 100), resize(territorySitesText, ""));
+    setTerritoriesText(resize(territoriesText, ""));
+  };
+
+  // In demand mode the total site count is the sum of the regions' counts
+  const updateDemand = (sites: (number | null)[], territoryText: string[], enabled = sizeByDemand) => {
+    setRegionSites(sites);
+    setTerritorySitesText(territoryText);
+    if (enabled) {
+      setSitesNeeded(
+        sites.reduce<number>((sum, n, i) => {
+          const list = parseSiteList(territoryText[i] ?? "");
+          return sum + (list.length ? list.reduce((a, b) => a + b, 0) : n ?? 0);
+        }, 0)
+      );
+    }
+  };
+
+  // Switching to demand sizing starts each region from its weighted share of the total
+  const updateSizeByDemand = (enabled: boolean) => {
+    setSizeByDemand(enabled);
+    if (enabled) {
+      const totalRatio = regionRatios.reduce((sum, r) => sum + r, 0);
+      updateDemand(
+        regionRatios.map((ratio) => Math.ceil((sitesNeeded * ratio) / totalRatio)),
+        territorySitesText,
+        true
+      );
+    }
+  };
+
+  // With site tiers the total site count is the sum of the tiers' counts
+  const updateSiteTiers = (text: string) => {
+    setSiteTiersText(text);
+    try {
+      const tiers = SiteTierList.parse(text);
+      if (tiers) setSitesNeeded(tiers.reduce((sum, t) => sum + t.sitesNeeded, 0));
+    } catch {
+      // The form shows the parse error; keep the last valid total
+    }
   };
 
   const updateRegionRatio = (index: number, ratio: number) => {
@@ -87,30 +180,69 @@ export default function Home() {
     });
   };
 
-  const calculate = () => {
+  const currentPlan = (): PlanState => ({
+    supernet,
+    regionRatios: regionRatios.slice(0, regionCount),
+    subRegionsPerRegion,
+    sitesNeeded,
+    vlansPerSite,
+    vlanSize,
+    vlanPrefixes,
+    ipv6Supernet: dualStack ? ipv6Supernet : undefined,
+    exclusions: exclusionsText
+      .split(/[\s,]+/)
+      .map((entry) => entry.trim())
+      .filter(Boolean),
+    existingSitesText,
+    growthMultiplier,
+    demand: sizeByDemand
+      ? {
+          regionSites: regionSites.slice(0, regionCount),
+          territorySites: territorySitesText.slice(0, regionCount).map(parseSiteList),
+        }
+      : undefined,
+    territoriesText: territoriesText.some((text) => text.trim()) ? territoriesText.slice(0, regionCount) : [],
+    levelsText: levelsText.trim(),
+    siteTiersText: siteTiersText.trim(),
+    ...(regionThemes.some((t, i) => t.name !== themeAt(i).name || t.code !== themeAt(i).code)
+      ? {
+          regionNames: regionThemes.slice(0, regionCount).map((t) => t.name),
+          regionCodes: regionThemes.slice(0, regionCount).map((t) => t.code),
+        }
+      : { regionNames: [], regionCodes: [] }),
+  });
+
+  const buildConfig = (plan: PlanState): AllocationConfig => ({
+    supernet: plan.supernet,
+    regionBiases: plan.regionRatios.map((ratio, i) => ({
+      name: plan.regionNames[i] || themeAt(i).name,
+      ratio: ratio || 1,
+      code: (plan.regionNames[i] ? plan.regionCodes[i] : themeAt(i).code) || undefined,
+      territories: plan.territoriesText[i]?.trim() ? TerritoryList.parse(plan.territoriesText[i]) : undefined,
+      sitesNeeded: plan.demand?.regionSites[i] ?? undefined,
+      territorySites: plan.demand?.territorySites[i]?.length ? plan.demand.territorySites[i] : undefined,
+    })),
+    subRegionsPerRegion: plan.subRegionsPerRegion,
+    vlansPerSite: plan.vlansPerSite,
+    vlanSize: plan.vlanSize,
+    totalSitesNeeded: plan.sitesNeeded,
+    growthMultiplier: plan.growthMultiplier,
+    dualStack: plan.ipv6Supernet ? { ipv6Supernet: plan.ipv6Supernet } : undefined,
+    exclusions: plan.exclusions,
+    existingSites: Brownfield.parse(plan.existingSitesText),
+    levels: LevelList.parse(plan.levelsText),
+    siteTiers: SiteTierList.parse(plan.siteTiersText),
+  });
+
+  const calculate = (plan: PlanState = currentPlan()) => {
     try {
       setError(null);
 
-      const regionBiases: RegionBias[] = Array.from({ length: regionCount }, (_, i) => ({
-        name: REGION_THEMES[i]?.name || `Region ${i + 1}`,
-        ratio: regionRatios[i] || 1,
-        code: REGION_THEMES[i]?.code,
-      }));
-
-      const allocator = new HierarchicalAllocator({
-        supernet,
-        regionBiases,
-        subRegionsPerRegion,
-        vlansPerSite,
-        vlanSize,
-        totalSitesNeeded: sitesNeeded,
-        growthMultiplier: 3,
-      });
-
+      const allocator = new HierarchicalAllocator(buildConfig(plan));
       const allocation = allocator.allocate();
       
-      if (vlanPrefixes.length !== vlansPerSite) {
-         const initialPrefixes = Array.from({ length: vlansPerSite }, () => vlanSize);
+      if (plan.vlanPrefixes.length !== plan.vlansPerSite) {
+         const initialPrefixes = Array.from({ length: plan.vlansPerSite }, () => plan.vlanSize);
          setVlanPrefixes(initialPrefixes);
       }
       
@@ -126,6 +258,128 @@ export default function Home() {
     }
   };
 
+  // Load every field of a plan into the form state
+  const applyPlan = (plan: PlanState) => {
+    setSupernet(plan.supernet);
+    setRegionCount(plan.regionRatios.length);
+    setRegionRatios(plan.regionRatios);
+    setSubRegionsPerRegion(plan.subRegionsPerRegion);
+    setSitesNeeded(plan.sitesNeeded);
+    setVlansPerSite(plan.vlansPerSite);
+    setVlanSize(plan.vlanSize);
+    setVlanPrefixes(plan.vlanPrefixes);
+    setDualStack(Boolean(plan.ipv6Supernet));
+    if (plan.ipv6Supernet) setIpv6Supernet(plan.ipv6Supernet);
+    setExclusionsText(plan.exclusions.join("\n"));
+    setExistingSitesText(plan.existingSitesText);
+    setTerritoriesText(plan.regionRatios.map((_, i) => plan.territoriesText[i] ?? ""));
+    setLevelsText(plan.levelsText);
+    setSiteTiersText(plan.siteTiersText);
+    setRegionThemes(
+      Array.from({ length: Math.max(REGION_THEMES.length, plan.regionRatios.length) }, (_, i) =>
+        plan.regionNames[i] ? { name: plan.regionNames[i], code: plan.regionCodes[i] ?? "" } : themeAt(i)
+      )
+    );
+    setGrowthMultiplier(plan.growthMultiplier);
+    setSizeByDemand(Boolean(plan.demand));
+    if (plan.demand) {
+      setRegionSites(plan.demand.regionSites);
+      setTerritorySitesText(plan.demand.territorySites.map((list) => list.join(", ")));
+    }
+  };
+
+  // A shared link (#plan=...) restores the blueprint and opens the Analysis step
+  useEffect(() => {
+    setProjects(ProjectStore.list());
+    try {
+      const plan = PlanCodec.fromHash(window.location.hash);
+      if (plan) {
+        applyPlan(plan);
+        calculate(plan);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Shared plan link could not be loaded.");
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Keep the address bar in sync with the blueprint on screen
+  useEffect(() => {
+    if (!result) return;
+    window.history.replaceState(null, "", PlanCodec.toHash(currentPlan()));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [result, vlanPrefixes]);
+
+  const saveProject = (asNew = false) => {
+    try {
+      const project = ProjectStore.save(
+        projectName,
+        buildConfig(currentPlan()),
+        vlanPrefixes,
+        asNew ? undefined : activeProjectId ?? undefined
+      );
+      setActiveProjectId(project.id);
+      setProjectName(project.name);
+      setProjects(ProjectStore.list());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Project could not be saved.");
+    }
+  };
+
+  const loadProject = (id: string) => {
+    const project = ProjectStore.get(id);
+    if (!project) return;
+    applyPlan(ProjectStore.toPlan(project));
+    setActiveProjectId(project.id);
+    setProjectName(project.name);
+    setResult(null);
+    setError(null);
+  };
+
+  const duplicateProject = (id: string) => {
+    const copy = ProjectStore.duplicate(id);
+    setProjects(ProjectStore.list());
+    loadProject(copy.id);
+  };
+
+  const deleteProject = (id: string) => {
+    ProjectStore.remove(id);
+    setProjects(ProjectStore.list());
+    if (id === activeProjectId) {
+      setActiveProjectId(null);
+      setProjectName("");
+    }
+  };
+
+  const exportPlan = () => {
+    if (!result) return;
+    const planDocument = PlanExport.create(buildConfig(currentPlan()), result, vlanPrefixes);
+    downloadFile(`ipam-plan-${fileSlug(result.hierarchy.cidr)}.json`, PlanExport.stringify(planDocument), "application/json");
+  };
+
+  // Restore a plan export exactly as it was allocated and open the Analysis step
+  const importPlan = (text: string) => {
+    try {
+      const planDocument = PlanExport.parse(text);
+      applyPlan(PlanCodec.fromConfig(planDocument.config, planDocument.vlanTemplate.prefixes));
+      setActiveProjectId(null);
+      setProjectName("");
+      setResult(planDocument.result);
+      setError(null);
+      setCurrentStep(2);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Plan file could not be imported.");
+    }
+  };
+
+  const copyShareLink = async () => {
+    const url = `${window.location.origin}${window.location.pathname}${PlanCodec.toHash(currentPlan())}`;
+    await navigator.clipboard.writeText(url);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
   return (
     <div className="min-h-screen bg-background transition-colors duration-300 selection:bg-primary/20 selection:text-primary">
       <div className="fixed inset-0 -z-10 h-full w-full bg-background">
@@ -146,22 +400,38 @@ export default function Home() {
               </h1>
             </div>
             <p className="text-muted-foreground text-sm max-w-md leading-relaxed">
-              Design intelligent, hierarchical IPv4 network blueprints for enterprise scale.
+              Design intelligent, hierarchical IPv4 and IPv6 network blueprints for enterprise scale.
             </p>
           </div>
           
-          <Button 
-            variant="outline" 
-            size="icon" 
-            onClick={() => setTheme(theme === "dark" ? "light" : "dark")}
-            className="rounded-full bg-background/50 backdrop-blur-sm border-border/50"
-          >
-            <Sun className="h-5 w-5 rotate-0 scale-100 transition-all dark:-rotate-90 dark:scale-0" />
-            <Moon className="absolute h-5 w-5 rotate-90 scale-0 transition-all dark:rotate-0 dark:scale-100" />
-            <span className="sr-only">Toggle theme</span>
-          </Button>
+          <div className="flex items-center gap-3">
+            <Button
+              variant={showTools ? "default" : "outline"}
+              onClick={() => setShowTools(!showTools)}
+              className="rounded-full gap-2 backdrop-blur-sm"
+            >
+              <Wrench className="h-4 w-4" />
+              Tools
+            </Button>
+            <Button 
+              variant="outline" 
+              size="icon" 
+              onClick={() => setTheme(theme === "dark" ? "light" : "dark")}
+              className="rounded-full bg-background/50 backdrop-blur-sm border-border/50"
+            >
+              <Sun className="h-5 w-5 rotate-0 scale-100 transition-all dark:-rotate-90 dark:scale-0" />
+              <Moon className="absolute h-5 w-5 rotate-90 scale-0 transition-all dark:rotate-0 dark:scale-100" />
+              <span className="sr-only">Toggle theme</span>
+            </Button>
+          </div>
         </div>
 
+        {showTools && (
+          <div className="mb-10 animate-in fade-in slide-in-from-top-4 duration-500">
+            <CidrTools />
+          </div>
+        )}
+
         {/* Steps Anchor - This is where we scroll to */}
         {/* scroll-mt-6 ensures we leave a little gap at the top of the browser window */}
         <div ref={topRef} className="mb-10 scroll-mt-6">
@@ -173,9 +443,32 @@ export default function Home() {
           {/* STEP 1: CONFIGURATION */}
           {currentStep === 1 && (
             <div className="animate-in fade-in slide-in-from-bottom-8 duration-700">
+              <div className="mb-8">
+                <ProjectLibrary
+                  projects={projects}
+                  activeProjectId={activeProjectId}
+                  projectName={projectName}
+                  setProjectName={setProjectName}
+                  onSave={() => saveProject()}
+                  onSaveAsNew={() => saveProject(true)}
+                  onLoad={loadProject}
+                  onDuplicate={duplicateProject}
+                  onDelete={deleteProject}
+                  onImport={importPlan}
+                />
+              </div>
+
               <ConfigurationForm
                 supernet={supernet}
-                setSupernet={setSupernet}
+                setSupernet={updateSupernet}
+                dualStack={dualStack}
+                setDualStack={setDualStack}
+                ipv6Supernet={ipv6Supernet}
+                setIpv6Supernet={setIpv6Supernet}
+                exclusionsText={exclusionsText}
+                setExclusionsText={setExclusionsText}
+                existingSitesText={existingSitesText}
+                setExistingSitesText={setExistingSitesText}
                 regionCount={regionCount}
                 setRegionCount={updateRegionCount}
                 subRegionsPerRegion={subRegionsPerRegion}
@@ -188,7 +481,27 @@ export default function Home() {
                 setVlanSize={setVlanSize}
                 regionRatios={regionRatios}
                 updateRegionRatio={updateRegionRatio}
-                regionThemes={REGION_THEMES}
+                sizeByDemand={sizeByDemand}
+                setSizeByDemand={updateSizeByDemand}
+                growthMultiplier={growthMultiplier}
+                setGrowthMultiplier={setGrowthMultiplier}
+                regionSites={regionSites}
+                updateRegionSites={(index, sites) =>
+                  updateDemand(regionSites.map((n, i) => (i === index ? sites : n)), territorySitesText)
+                }
+                levelsText={levelsText}
+                setLevelsText={setLevelsText}
+                siteTiersText={siteTiersText}
+                setSiteTiersText={updateSiteTiers}
+                territoriesText={territoriesText}
+                updateTerritories={(index, text) =>
+                  setTerritoriesText(territoriesText.map((t, i) => (i === index ? text : t)))
+                }
+                territorySitesText={territorySitesText}
+                updateTerritorySites={(index, text) =>
+                  updateDemand(regionSites, territorySitesText.map((t, i) => (i === index ? text : t)))
+                }
+                regionThemes={regionThemes}
               />
 
               {error && (
@@ -200,7 +513,7 @@ export default function Home() {
               )}
 
               <div className="flex justify-end mt-8">
-                <Button size="lg" onClick={calculate} className="gap-2 shadow-xl shadow-primary/20 hover:shadow-primary/40 transition-all">
+                <Button size="lg" onClick={() => calculate()} className="gap-2 shadow-xl shadow-primary/20 hover:shadow-primary/40 transition-all">
                   Generate Blueprint
                   <ArrowRight className="w-4 h-4" />
                 </Button>
@@ -211,27 +524,43 @@ export default function Home() {
           {/* STEP 2: RESULTS */}
           {currentStep === 2 && result && (
              <div className="space-y-8 animate-in fade-in slide-in-from-bottom-8 duration-700">
-                <ResultsSummary result={result} sitesNeeded={sitesNeeded} />
+                <ResultsSummary result={result} sitesNeeded={sitesNeeded} onExport={exportPlan} />
 
+{/* Site tiers carry their own VLAN templates, so the standard template editor stays hidden */}
+{!result.siteTiers && (
 <SiteExample
   allocation={result}
   vlanSize={vlanSize}
   vlansPerSite={vlansPerSite}
   vlanPrefixes={vlanPrefixes}
   updateVlanPrefix={updateVlanPrefix}
-  regionThemes={REGION_THEMES}
+  regionThemes={regionThemes}
   totalSites={sitesNeeded} // <--- Add this line
 />
+)}
+
+                <SiteConfigPanel
+                  result={result}
+                  vlanSize={vlanSize}
+                  vlansPerSite={vlansPerSite}
+                  vlanPrefixes={vlanPrefixes}
+                />
 
                 <div className="flex justify-between pt-6 border-t border-border/50">
                   <Button variant="ghost" onClick={() => setCurrentStep(1)} className="gap-2 hover:bg-secondary">
                     <ArrowLeft className="w-4 h-4" />
                     Refine Configuration
                   </Button>
-                  <Button onClick={() => setCurrentStep(3)} className="gap-2">
-                    View Hierarchy
-                    <ArrowRight className="w-4 h-4" />
-                  </Button>
+                  <div className="flex gap-3">
+                    <Button variant="outline" onClick={copyShareLink} className="gap-2">
+                      {linkCopied ? <Check className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
+                      {linkCopied ? "Link Copied" : "Copy Share Link"}
+                    </Button>
+                    <Button onClick={() => setCurrentStep(3)} className="gap-2">
+                      View Hierarchy
+                      <ArrowRight className="w-4 h-4" />
+                    </Button>
+                  </div>
                 </div>
              </div>
           )}
@@ -239,7 +568,23 @@ export default function Home() {
           {/* STEP 3: HIERARCHY */}
           {currentStep === 3 && result && (
              <div className="space-y-8 animate-in fade-in slide-in-from-bottom-8 duration-700">
-                <HierarchyView result={result} regionThemes={REGION_THEMES} />
+                <HierarchyView result={result} regionThemes={regionThemes} />
+
+                <AddressMapView
+                  result={result}
+                  vlanSize={vlanSize}
+                  vlansPerSite={vlansPerSite}
+                  vlanPrefixes={vlanPrefixes}
+                />
+
+                <ExportPanel
+                  config={buildConfig(currentPlan())}
+                  result={result}
+                  sitesNeeded={sitesNeeded}
+                  vlanSize={vlanSize}
+                  vlansPerSite={vlansPerSite}
+                  vlanPrefixes={vlanPrefixes}
+                />
 
                 <div className="flex justify-between pt-6 border-t border-border/50">
                   <Button variant="outline" onClick={() => setCurrentStep(2)} className="gap-2">
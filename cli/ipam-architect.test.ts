@@ -0,0 +1,36 @@
+// Runs the CLI as a child process, the way the README invokes it.
+
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+const CLI = fileURLToPath(new URL("./ipam-architect.ts", import.meta.url));
+
+function run(...args: string[]) {
+  return spawnSync(process.execPath, ["--import", "tsx", CLI, ...args], { encoding: "utf8" });
+}
+
+test("plans from --supernet and --regions alone", () => {
+  const { status, stdout, stderr } = run("-s", "10.0.0.0/8", "-r", "A:2:AA,B:1:BB");
+  assert.equal(status, 0, stderr);
+  assert.match(stdout, /Sites supported:/);
+});
+
+test("passes --growth through to the config", () => {
+  const { status, stdout, stderr } = run("-s", "10.0.0.0/8", "-r", "A,B", "-g", "1.5", "-f", "json");
+  assert.equal(status, 0, stderr);
+  assert.equal(JSON.parse(stdout).config.growthMultiplier, 1.5);
+});
+
+test("rejects a growth multiplier that is not positive", () => {
+  const { status, stderr } = run("-s", "10.0.0.0/8", "-r", "A,B", "--growth", "0");
+  assert.equal(status, 1);
+  assert.match(stderr, /growthMultiplier: must be a positive number/);
+});
+
+test("rejects a --growth value that is not a number", () => {
+  const { status, stderr } = run("-s", "10.0.0.0/8", "-r", "A,B", "--growth", "lots");
+  assert.equal(status, 2);
+  assert.match(stderr, /--growth expects a number/);
+});
@@ -0,0 +1,233 @@
+// Command-line front end for the allocation engine.
+// Run with `npm run cli -- --help`.
+
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { CIDRMath } from "../lib/cidr-math";
+import { ConfigValidator, DEFAULT_GROWTH_MULTIPLIER } from "../lib/config-validator";
+import { CsvExport } from "../lib/csv-export";
+import {
+  HierarchicalAllocator,
+  type AllocationResult,
+  type HierarchyLevel,
+} from "../lib/hierarchical-allocator";
+import { PlanExport } from "../lib/plan-document";
+import { SitePlan } from "../lib/site-plan";
+
+const USAGE = `Usage: ipam-architect [options]
+
+Plan a hierarchical address space and print it as a table, JSON or CSV.
+
+Options:
+  -c, --config <file>        AllocationConfig JSON or a plan export; flags override it
+  -s, --supernet <cidr>      Root block, e.g. 10.0.0.0/8 or 2001:db8::/32
+  -r, --regions <list>       Regions as name[:ratio[:code]], comma separated,
+                             e.g. "Orion:2:ORI,Lyra:1:LYR"
+  -t, --territories <n>      Territories per region (default 2)
+  -n, --sites <n>            Total sites needed (default 1000)
+  -g, --growth <n>           Growth multiplier for site demand (default ${DEFAULT_GROWTH_MULTIPLIER})
+  -v, --vlans <n>            VLANs per site (default 5)
+      --vlan-size <prefix>   Standard VLAN prefix (default 24, or 64 for IPv6)
+      --vlan-prefixes <list> Per-VLAN prefixes for CSV output, e.g. 23,24,26
+      --ipv6 <cidr>          Dual-stack IPv6 supernet
+  -x, --exclude <cidr>       Reserved range to route around (repeatable)
+  -f, --format <format>      table (default), json or csv
+      --include-vlans        CSV: one row per VLAN instead of per site
+  -h, --help                 Show this help
+
+Exit codes: 0 success, 1 invalid config or allocation failure, 2 usage error.`;
+
+class UsageError extends Error {}
+
+function parseCommandLine(argv: string[]) {
+  try {
+    return parseArgs({
+      args: argv,
+      options: {
+        config: { type: "string", short: "c" },
+        supernet: { type: "string", short: "s" },
+        regions: { type: "string", short: "r" },
+        territories: { type: "string", short: "t" },
+        sites: { type: "string", short: "n" },
+        growth: { type: "string", short: "g" },
+        vlans: { type: "string", short: "v" },
+        "vlan-size": { type: "string" },
+        "vlan-prefixes": { type: "string" },
+        ipv6: { type: "string" },
+        exclude: { type: "string", short: "x", multiple: true },
+        format: { type: "string", short: "f", default: "table" },
+        "include-vlans": { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    }).values;
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+}
+
+type CommandLine = ReturnType<typeof parseCommandLine>;
+
+function toInteger(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number)) throw new UsageError(`${flag} expects an integer, got "${value}"`);
+  return number;
+}
+
+function toNumber(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (value.trim() === "" || Number.isNaN(number)) {
+    throw new UsageError(`${flag} expects a number, got "${value}"`);
+  }
+  return number;
+}
+
+function parseRegions(list: string) {
+  return list
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [name, ratio = "1", code] = entry.split(":").map((part) => part.trim());
+      return { name, ratio: Number(ratio), ...(code ? { code } : {}) };
+    });
+}
+
+// Merge the config file (if any) with flags; validation happens afterwards
+function buildRawConfig(args: CommandLine): Record<string, unknown> {
+  let raw: Record<string, unknown> = {};
+
+  if (args.config) {
+    let data: unknown;
+    try {
+      data = JSON.parse(readFileSync(args.config, "utf8"));
+    } catch (err) {
+      throw new UsageError(
+        `Could not read ${args.config}: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+    const record = (data ?? {}) as Record<string, unknown>;
+    // A full plan export carries its config under "config"
+    raw = (record.format === "ipam-architect-plan" ? record.config : record) as Record<string, unknown>;
+  }
+
+  const supernet = args.supernet ?? (raw.supernet as string | undefined);
+  const isIpv6 = typeof supernet === "string" && CIDRMath.ipVersion(supernet) === 6;
+  const overrides: Record<string, unknown> = {
+    supernet,
+    regionBiases: args.regions ? parseRegions(args.regions) : raw.regionBiases,
+    subRegionsPerRegion: toInteger(args.territories, "--territories") ?? raw.subRegionsPerRegion ?? 2,
+    totalSitesNeeded: toInteger(args.sites, "--sites") ?? raw.totalSitesNeeded ?? 1000,
+    growthMultiplier:
+      toNumber(args.growth, "--growth") ?? raw.growthMultiplier ?? DEFAULT_GROWTH_MULTIPLIER,
+    vlansPerSite: toInteger(args.vlans, "--vlans") ?? raw.vlansPerSite ?? 5,
+    vlanSize: toInteger(args["vlan-size"], "--vlan-size") ?? raw.vlanSize ?? (isIpv6 ? 64 : 24),
+  };
+  if (args.ipv6) overrides.dualStack = { ipv6Supernet: args.ipv6 };
+  if (args.exclude) overrides.exclusions = args.exclude;
+
+  return { ...raw, ...overrides };
+}
+
+function formatTable(result: AllocationResult): string {
+  const rows: string[][] = [["LEVEL", "NAME", "CIDR", "ADDRESSES", "SITES"]];
+  const walk = (level: HierarchyLevel, depth: number) => {
+    const label = ["Supernet", "Region", "Territory", "Site"][depth] ?? "Block";
+    rows.push([
+      label,
+      `${"  ".repeat(depth)}${level.name}`,
+      level.ipv6 ? `${level.cidr}  ${level.ipv6.cidr}` : level.cidr,
+      CIDRMath.formatSize(level.totalAddresses),
+      level.metadata?.sitesCapacity !== undefined
+        ? level.metadata.sitesCapacity.toLocaleString("en-US")
+        : "",
+    ]);
+    level.children?.forEach((child) => walk(child, depth + 1));
+  };
+  walk(result.hierarchy, 0);
+
+  const widths = rows[0].map((_, col) => Math.max(...rows.map((row) => row[col].length)));
+  const lines = rows.map((row) =>
+    row.map((cell, col) => cell.padEnd(widths[col])).join("  ").trimEnd()
+  );
+
+  lines.push(
+    "",
+    `Site prefix: /${result.sitePrefixRecommendation}`,
+    `Sites supported: ${result.totalSitesSupported.toLocaleString("en-US")}`,
+    `Utilization: ${result.utilizationPercentage.toFixed(1)}%`
+  );
+  return lines.join("\n");
+}
+
+function main(argv: string[]): number {
+  const args = parseCommandLine(argv);
+  if (args.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!["table", "json", "csv"].includes(args.format ?? "")) {
+    throw new UsageError(`Unknown format "${args.format}" - use table, json or csv`);
+  }
+  if (!args.config && (!args.supernet || !args.regions)) {
+    throw new UsageError("Provide --config, or at least --supernet and --regions");
+  }
+
+  const validation = ConfigValidator.validate(buildRawConfig(args));
+  if (!validation.ok) {
+    console.error(`Invalid configuration:\n${ConfigValidator.formatIssues(validation.issues)}`);
+    return 1;
+  }
+  const { config } = validation;
+
+  let result: AllocationResult;
+  try {
+    result = new HierarchicalAllocator(config).allocate();
+  } catch (err) {
+    console.error(`Allocation failed: ${err instanceof Error ? err.message : String(err)}`);
+    return 1;
+  }
+
+  const vlanPrefixes = SitePlan.vlanPrefixes(
+    config.vlansPerSite,
+    config.vlanSize,
+    args["vlan-prefixes"]
+      ? args["vlan-prefixes"].split(",").map((p) => toInteger(p.trim(), "--vlan-prefixes") as number)
+      : []
+  );
+
+  if (args.format === "json") {
+    console.log(PlanExport.stringify(PlanExport.create(config, result, vlanPrefixes)));
+  } else if (args.format === "csv") {
+    const includeVlans = args["include-vlans"] ?? false;
+    const line = (fields: string[]) => fields.map((f) => CsvExport.escape(f)).join(",");
+    process.stdout.write(line(CsvExport.header(result, includeVlans)) + "\n");
+    for (const row of CsvExport.rows(result, { includeVlans, vlanPrefixes })) {
+      process.stdout.write(line(row) + "\n");
+    }
+  } else {
+    console.log(formatTable(result));
+  }
+
+  // Warnings go to stderr so stdout stays machine-readable
+  result.warnings?.forEach((warning) => console.error(`warning: ${warning}`));
+  return 0;
+}
+
+// Piping into `head` and similar closes stdout early; that is not an error
+process.stdout.on("error", (err: NodeJS.ErrnoException) => {
+  if (err.code === "EPIPE") process.exit(0);
+  throw err;
+});
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (err) {
+  if (err instanceof UsageError) {
+    console.error(`${err.message}\n\n${USAGE}`);
+    process.exitCode = 2;
+  } else {
+    throw err;
+  }
+}
@@ -0,0 +1,216 @@
+import { useMemo, useState, type CSSProperties } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ChevronRight, MapIcon } from "lucide-react";
+import type { AllocationResult } from "@/lib/hierarchical-allocator";
+import { CIDRMath } from "@/lib/cidr-math";
+import { SitePlan } from "@/lib/site-plan";
+import { AddressMap, type MapFocus, type MapSegment } from "@/lib/address-map";
+import { cn } from "@/lib/utils";
+
+interface AddressMapViewProps {
+  result: AllocationResult;
+  vlanSize: number;
+  vlansPerSite: number;
+  vlanPrefixes: number[];
+}
+
+interface MapCrumb {
+  focus: MapFocus;
+  label: string;
+}
+
+const PALETTE = [
+  "bg-blue-500/70 hover:bg-blue-500",
+  "bg-emerald-500/70 hover:bg-emerald-500",
+  "bg-violet-500/70 hover:bg-violet-500",
+  "bg-cyan-500/70 hover:bg-cyan-500",
+  "bg-pink-500/70 hover:bg-pink-500",
+  "bg-lime-500/70 hover:bg-lime-500",
+  "bg-indigo-500/70 hover:bg-indigo-500",
+  "bg-teal-500/70 hover:bg-teal-500",
+];
+
+function segmentColor(segment: MapSegment) {
+  switch (segment.kind) {
+    case "unallocated":
+      return "bg-muted hover:bg-muted-foreground/20";
+    case "excluded":
+      return "bg-red-500/20 hover:bg-red-500/35 bg-[repeating-linear-gradient(45deg,transparent,transparent_4px,rgba(239,68,68,0.35)_4px,rgba(239,68,68,0.35)_8px)]";
+    case "existing":
+      return "bg-amber-500/70 hover:bg-amber-500";
+    case "site":
+    case "slots":
+      return "bg-primary/25 hover:bg-primary/50";
+    default:
+      return PALETTE[segment.colorIndex % PALETTE.length];
+  }
+}
+
+const ROOT: MapCrumb = { focus: { kind: "supernet" }, label: "Supernet" };
+
+export function AddressMapView({ result, vlanSize, vlansPerSite, vlanPrefixes }: AddressMapViewProps) {
+  const [trail, setTrail] = useState<MapCrumb[]>([ROOT]);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  // A new plan starts the map back at the supernet
+  const [mapResult, setMapResult] = useState(result);
+  if (mapResult !== result) {
+    setMapResult(result);
+    setTrail([ROOT]);
+    setHoveredId(null);
+  }
+
+  const { focus } = trail[trail.length - 1];
+  const template = useMemo(
+    () => SitePlan.vlanPrefixes(vlansPerSite, vlanSize, vlanPrefixes),
+    [vlansPerSite, vlanSize, vlanPrefixes]
+  );
+  const segments = useMemo(() => AddressMap.segments(result, focus, template), [result, focus, template]);
+  const site = useMemo(() => AddressMap.focusSite(result, focus), [result, focus]);
+  const focusCidr = AddressMap.focusCidr(result, focus);
+  const focusSize = CIDRMath.subnetAddressCount(CIDRMath.parseCIDR(focusCidr).prefix, CIDRMath.ipVersion(focusCidr));
+  const hovered = segments.find((s) => s.id === hoveredId);
+  const grid = segments.length > 0 && segments.every((s) => s.kind === "site" || s.kind === "slots" || s.kind === "existing");
+
+  const drill = (segment: MapSegment) => {
+    if (!segment.drill) return;
+    setTrail([...trail, { focus: segment.drill, label: segment.label }]);
+    setHoveredId(null);
+  };
+
+  const segmentButton = (segment: MapSegment, style?: CSSProperties) => (
+    <button
+      key={segment.id}
+      type="button"
+      style={style}
+      title={`${segment.label} ${segment.cidr}`}
+      onMouseEnter={() => setHoveredId(segment.id)}
+      onFocus={() => setHoveredId(segment.id)}
+      onClick={() => drill(segment)}
+      className={cn(
+        "border border-background/60 transition-colors",
+        segmentColor(segment),
+        segment.drill ? "cursor-pointer" : "cursor-default",
+        hoveredId === segment.id && "ring-2 ring-primary ring-inset"
+      )}
+    />
+  );
+
+  return (
+    <Card className="border-border/60 shadow-xl bg-card/40 backdrop-blur-xl pt-2">
+      <CardHeader className="bg-muted/20 m-4 p-2 rounded-xl">
+        <div className="flex items-center gap-2">
+          <MapIcon className="w-5 h-5 text-primary" />
+          <CardTitle className="text-xl">Address Map</CardTitle>
+        </div>
+        <CardDescription>
+          Every block drawn at its real size and position. Hover for details, click to zoom in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="px-6 pb-6 space-y-4">
+        <nav className="flex flex-wrap items-center gap-1 text-sm">
+          {trail.map((crumb, i) => (
+            <span key={i} className="flex items-center gap-1">
+              {i > 0 && <ChevronRight className="w-3 h-3 text-muted-foreground" />}
+              {i < trail.length - 1 ? (
+                <button
+                  type="button"
+                  onClick={() => setTrail(trail.slice(0, i + 1))}
+                  className="text-muted-foreground hover:text-primary hover:underline"
+                >
+                  {crumb.label}
+                </button>
+              ) : (
+                <span className="font-medium">{crumb.label}</span>
+              )}
+            </span>
+          ))}
+          <Badge variant="outline" className="ml-2 font-mono text-xs">{focusCidr}</Badge>
+        </nav>
+
+        {segments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {site?.status === "existing"
+              ? `${site.name} is an existing site with its own numbering, so no VLANs are derived for it.`
+              : site
+                ? "No VLANs fit in this site block."
+                : "This slot is covered by an existing site."}
+          </p>
+        ) : grid ? (
+          <div
+            className="grid gap-px rounded-lg overflow-hidden bg-border/40"
+            style={{ gridTemplateColumns: `repeat(${Math.min(segments.length, 32)}, minmax(0, 1fr))` }}
+            onMouseLeave={() => setHoveredId(null)}
+          >
+            {segments.map((segment) => segmentButton(segment, { height: "1.5rem" }))}
+          </div>
+        ) : (
+          <div
+            className="relative h-16 rounded-lg overflow-hidden bg-muted/30 border border-border/50"
+            onMouseLeave={() => setHoveredId(null)}
+          >
+            {segments.map((segment) =>
+              segmentButton(segment, {
+                position: "absolute",
+                top: 0,
+                bottom: 0,
+                left: `${segment.offset * 100}%`,
+                width: `${segment.width * 100}%`,
+                minWidth: "2px",
+              })
+            )}
+          </div>
+        )}
+
+        <div className="min-h-[4.5rem] rounded-lg border border-border/50 bg-muted/20 p-3 text-sm">
+          {hovered ? (
+            <div className="space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">{hovered.label}</span>
+                <Badge variant="outline" className="font-mono text-xs">{hovered.cidr}</Badge>
+                {hovered.ipv6Cidr && (
+                  <Badge variant="outline" className="font-mono text-xs">{hovered.ipv6Cidr}</Badge>
+                )}
+              </div>
+              <p className="font-mono text-xs text-muted-foreground">{hovered.range}</p>
+              <p className="text-xs text-muted-foreground">
+                {CIDRMath.formatSize(hovered.addresses)} addresses,{" "}
+                {(Number((hovered.addresses * BigInt(10000)) / focusSize) / 100).toFixed(2)}% of {focusCidr}
+                {hovered.detail && `. ${hovered.detail}`}
+                {hovered.drill && ". Click to zoom in."}
+              </p>
+            </div>
+          ) : (
+            <p className="text-muted-foreground">
+              {site
+                ? `${site.name} (${site.cidr}${site.ipv6Cidr ? `, ${site.ipv6Cidr}` : ""})`
+                : `${segments.length.toLocaleString()} block${segments.length === 1 ? "" : "s"} in ${focusCidr}`}
+            </p>
+          )}
+        </div>
+
+        {!grid && segments.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {segments.map((segment) => (
+              <button
+                key={segment.id}
+                type="button"
+                onMouseEnter={() => setHoveredId(segment.id)}
+                onMouseLeave={() => setHoveredId(null)}
+                onClick={() => drill(segment)}
+                className={cn(
+                  "flex items-center gap-1.5 rounded-md border border-border/50 px-2 py-1 text-xs",
+                  segment.drill ? "hover:border-primary/50" : "cursor-default"
+                )}
+              >
+                <span className={cn("h-3 w-3 rounded-sm", segmentColor(segment))} />
+                {segment.label}
+                <span className="font-mono text-muted-foreground">{segment.cidr}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
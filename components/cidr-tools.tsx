@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle, Wrench } from "lucide-react";
+import { CIDRMath } from "@/lib/cidr-math";
+import { PrefixSet, type PrefixOverlap } from "@/lib/prefix-set";
+
+function CidrList({ cidrs }: { cidrs: string[] }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {cidrs.map((cidr) => (
+        <Badge key={cidr} variant="outline" className="font-mono text-xs bg-primary/5 border-primary/20 text-primary">
+          {cidr}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+function ToolError({ message }: { message: string }) {
+  return (
+    <Alert variant="destructive" className="text-xs py-3 bg-destructive/10 border-destructive/20">
+      <AlertTriangle className="h-3.5 w-3.5" />
+      <AlertDescription className="ml-2">{message}</AlertDescription>
+    </Alert>
+  );
+}
+
+function parseList(text: string): string[] {
+  return text.split(/[\s,]+/).filter(Boolean);
+}
+
+function RangeToCidrTool() {
+  const [start, setStart] = useState("10.0.0.5");
+  const [end, setEnd] = useState("10.0.1.20");
+
+  let cidrs: string[] = [];
+  let error = "";
+  try {
+    cidrs = CIDRMath.rangeToCIDRs(start.trim(), end.trim());
+  } catch (err) {
+    error = err instanceof Error ? err.message : "Invalid range";
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="range-start" className="text-xs uppercase tracking-wider text-muted-foreground">Start Address</Label>
+          <Input id="range-start" value={start} onChange={(e) => setStart(e.target.value)} className="font-mono" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="range-end" className="text-xs uppercase tracking-wider text-muted-foreground">End Address</Label>
+          <Input id="range-end" value={end} onChange={(e) => setEnd(e.target.value)} className="font-mono" />
+        </div>
+      </div>
+      {error ? (
+        <ToolError message={error} />
+      ) : (
+        <div className="space-y-2">
+          <div className="text-xs text-muted-foreground">
+            {cidrs.length} {cidrs.length === 1 ? "block" : "blocks"} cover this range exactly
+          </div>
+          <CidrList cidrs={cidrs} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SummarizeTool() {
+  const [text, setText] = useState("10.0.0.0/24\n10.0.1.0/24\n10.0.2.0/23\n10.0.5.0/24");
+  const entries = parseList(text);
+
+  let summary: string[] = [];
+  let supernet = "";
+  let error = "";
+  try {
+    summary = CIDRMath.summarize(entries);
+    if (entries.length > 0 && summary.every((cidr) => CIDRMath.ipVersion(cidr) === CIDRMath.ipVersion(summary[0]))) {
+      supernet = CIDRMath.commonSupernet(entries);
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : "Invalid CIDR list";
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="summarize-input" className="text-xs uppercase tracking-wider text-muted-foreground">CIDR Blocks</Label>
+        <textarea
+          id="summarize-input"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={5}
+          className="w-full rounded-md border bg-background/50 px-3 py-2 font-mono text-sm shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-primary/20"
+        />
+      </div>
+      {error ? (
+        <ToolError message={error} />
+      ) : (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <div className="text-xs text-muted-foreground">
+              Aggregated to {summary.length} {summary.length === 1 ? "prefix" : "prefixes"} (exact coverage)
+            </div>
+            <CidrList cidrs={summary} />
+          </div>
+          {supernet && (
+            <div className="space-y-2">
+              <div className="text-xs text-muted-foreground">Smallest single covering supernet</div>
+              <CidrList cidrs={[supernet]} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function OverlapList({ overlaps, empty }: { overlaps: PrefixOverlap[]; empty: string }) {
+  if (overlaps.length === 0) {
+    return <div className="text-xs text-muted-foreground italic">{empty}</div>;
+  }
+  return (
+    <ul className="space-y-1 text-xs">
+      {overlaps.map((o) => (
+        <li key={`${o.a}|${o.b}`} className="font-mono">
+          <span className="text-primary">{o.a}</span> ∩ <span className="text-primary">{o.b}</span>
+          <span className="text-muted-foreground"> → {o.overlap.join(", ")}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function ResultBlock({ title, cidrs }: { title: string; cidrs: string[] }) {
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-muted-foreground">{title}</div>
+      {cidrs.length > 0 ? <CidrList cidrs={cidrs} /> : <div className="text-xs text-muted-foreground italic">Empty</div>}
+    </div>
+  );
+}
+
+function OverlapTool() {
+  const [textA, setTextA] = useState("10.0.0.0/16\n10.1.0.0/16");
+  const [textB, setTextB] = useState("10.0.128.0/17\n10.2.0.0/24");
+  const listA = parseList(textA);
+  const listB = parseList(textB);
+
+  let result: {
+    overlaps: PrefixOverlap[];
+    conflictsA: PrefixOverlap[];
+    conflictsB: PrefixOverlap[];
+    union: string[];
+    intersection: string[];
+    difference: string[];
+  } | null = null;
+  let error = "";
+  try {
+    const setA = PrefixSet.from(listA);
+    const setB = PrefixSet.from(listB);
+    result = {
+      overlaps: PrefixSet.findOverlaps(listA, listB),
+      conflictsA: PrefixSet.findConflicts(listA),
+      conflictsB: PrefixSet.findConflicts(listB),
+      union: setA.union(setB).toCIDRs(),
+      intersection: setA.intersect(setB).toCIDRs(),
+      difference: setA.difference(setB).toCIDRs(),
+    };
+  } catch (err) {
+    error = err instanceof Error ? err.message : "Invalid CIDR list";
+  }
+
+  const textareaClass =
+    "w-full rounded-md border bg-background/50 px-3 py-2 font-mono text-sm shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-primary/20";
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="overlap-a" className="text-xs uppercase tracking-wider text-muted-foreground">List A</Label>
+          <textarea id="overlap-a" value={textA} onChange={(e) => setTextA(e.target.value)} rows={5} className={textareaClass} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="overlap-b" className="text-xs uppercase tracking-wider text-muted-foreground">List B</Label>
+          <textarea id="overlap-b" value={textB} onChange={(e) => setTextB(e.target.value)} rows={5} className={textareaClass} />
+        </div>
+      </div>
+      {error || !result ? (
+        <ToolError message={error} />
+      ) : (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              Overlaps between A and B
+              <Badge variant={result.overlaps.length > 0 ? "destructive" : "secondary"} className="text-[10px]">
+                {result.overlaps.length}
+              </Badge>
+            </div>
+            <OverlapList overlaps={result.overlaps} empty="No prefix in A overlaps a prefix in B" />
+          </div>
+          {(result.conflictsA.length > 0 || result.conflictsB.length > 0) && (
+            <div className="space-y-2">
+              <div className="text-xs text-muted-foreground">Conflicts within a list</div>
+              <OverlapList overlaps={[...result.conflictsA, ...result.conflictsB]} empty="" />
+            </div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <ResultBlock title="A ∪ B" cidrs={result.union} />
+            <ResultBlock title="A ∩ B" cidrs={result.intersection} />
+            <ResultBlock title="A − B" cidrs={result.difference} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function CidrTools() {
+  return (
+    <Card className="border-border/60 shadow-xl bg-card/40 backdrop-blur-xl pt-2">
+      <CardHeader className="bg-muted/20 m-4 p-2 rounded-xl">
+        <div className="flex items-center gap-2">
+          <Wrench className="w-5 h-5 text-primary" />
+          <CardTitle className="text-xl">CIDR Tools</CardTitle>
+        </div>
+        <CardDescription>Convert address ranges to prefixes, aggregate prefix lists and check lists for overlaps. Works with IPv4 and IPv6.</CardDescription>
+      </CardHeader>
+      <CardContent className="px-6 pb-6">
+        <Tabs defaultValue="range">
+          <TabsList>
+            <TabsTrigger value="range">Range → CIDR</TabsTrigger>
+            <TabsTrigger value="summarize">Summarize</TabsTrigger>
+            <TabsTrigger value="overlap">Overlap Check</TabsTrigger>
+          </TabsList>
+          <TabsContent value="range" className="pt-4">
+            <RangeToCidrTool />
+          </TabsContent>
+          <TabsContent value="summarize" className="pt-4">
+            <SummarizeTool />
+          </TabsContent>
+          <TabsContent value="overlap" className="pt-4">
+            <OverlapTool />
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
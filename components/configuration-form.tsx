@@ -1,3 +1,4 @@
+import { useRef } from "react";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -5,8 +6,12 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Slider } from "@/components/ui/slider";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { Network, Globe, Layers, Building, Settings2, CheckCircle2, Plus, Minus, AlertCircle } from "lucide-react";
+import { Network, Globe, Layers, Building, Settings2, CheckCircle2, Plus, Minus, AlertCircle, Split, Ban, Upload, MapPinned, ListTree, Boxes } from "lucide-react";
 import { CIDRMath } from "@/lib/cidr-math";
+import { Brownfield } from "@/lib/brownfield";
+import { TerritoryList } from "@/lib/territory-list";
+import { LevelList } from "@/lib/level-list";
+import { SiteTierList } from "@/lib/site-tier-list";
 import { cn } from "@/lib/utils";
 
 interface NumberControlProps {
@@ -73,6 +78,14 @@ function NumberControl({ value, onChange, min = 0, max = 100, step = 1, classNam
 interface ConfigurationFormProps {
   supernet: string;
   setSupernet: (value: string) => void;
+  dualStack: boolean;
+  setDualStack: (value: boolean) => void;
+  ipv6Supernet: string;
+  setIpv6Supernet: (value: string) => void;
+  exclusionsText: string;
+  setExclusionsText: (value: string) => void;
+  existingSitesText: string;
+  setExistingSitesText: (value: string) => void;
   regionCount: number;
   setRegionCount: (value: number) => void;
   subRegionsPerRegion: number;
@@ -85,6 +98,20 @@ interface ConfigurationFormProps {
   setVlanSize: (value: number) => void;
   regionRatios: number[];
   updateRegionRatio: (index: number, ratio: number) => void;
+  sizeByDemand: boolean;
+  setSizeByDemand: (value: boolean) => void;
+  growthMultiplier: number;
+  setGrowthMultiplier: (value: number) => void;
+  regionSites: (number | null)[];
+  updateRegionSites: (index: number, sites: number) => void;
+  levelsText: string;
+  setLevelsText: (value: string) => void;
+  siteTiersText: string;
+  setSiteTiersText: (value: string) => void;
+  territoriesText: string[];
+  updateTerritories: (index: number, text: string) => void;
+  territorySitesText: string[];
+  updateTerritorySites: (index: number, text: string) => void;
   regionThemes: { name: string; code: string }[];
 }
 
@@ -92,20 +119,60 @@ const PRESET_SUPERNETS = [
   { label: "10.0.0.0/8", value: "10.0.0.0/8", desc: "Large Private" },
   { label: "172.16.0.0/12", value: "172.16.0.0/12", desc: "Medium Private" },
   { label: "192.168.0.0/16", value: "192.168.0.0/16", desc: "Small Private" },
+  { label: "fd00::/48", value: "fd00::/48", desc: "IPv6 Unique Local" },
 ];
 
+// Slider bounds and reference marks for the VLAN size, per address family
+const VLAN_SIZE_RANGES = {
+  4: { min: 20, max: 28, marks: [{ prefix: 20, hosts: "4094 hosts" }, { prefix: 24, hosts: "254 hosts" }, { prefix: 28, hosts: "14 hosts" }] },
+  6: { min: 48, max: 64, marks: [{ prefix: 48, hosts: "2^80 hosts" }, { prefix: 56, hosts: "2^72 hosts" }, { prefix: 64, hosts: "2^64 hosts" }] },
+};
+
 export function ConfigurationForm(props: ConfigurationFormProps) {
   const totalRatio = props.regionRatios.reduce((sum, r) => sum + r, 0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Validate Supernet on render for visual feedback
   let supernetInfo = { valid: false, size: "", error: false };
   try {
-      const { prefix } = CIDRMath.parseCIDR(props.supernet);
-      const total = CIDRMath.subnetAddressCount(prefix);
+      const { prefix, version } = CIDRMath.parseCIDR(props.supernet);
+      const total = CIDRMath.subnetAddressCount(prefix, version);
       supernetInfo = { valid: true, size: CIDRMath.formatSize(total), error: false };
   } catch {
       supernetInfo = { valid: false, size: "", error: props.supernet.length > 0 };
   }
+  const vlanRange = VLAN_SIZE_RANGES[CIDRMath.ipVersion(props.supernet)];
+  const isIpv4Primary = CIDRMath.ipVersion(props.supernet) === 4;
+
+  let ipv6SupernetValid = false;
+  try {
+      ipv6SupernetValid = CIDRMath.parseCIDR(props.ipv6Supernet).version === 6;
+  } catch {
+      ipv6SupernetValid = false;
+  }
+
+  const exclusionEntries = props.exclusionsText.split(/[\s,]+/).filter(Boolean);
+  const invalidExclusions = exclusionEntries.filter((entry) => {
+      try {
+          CIDRMath.parseCIDR(entry);
+          return false;
+      } catch {
+          return true;
+      }
+  });
+
+  let existingSitesInfo = { count: 0, error: "" };
+  try {
+      existingSitesInfo = { count: Brownfield.parse(props.existingSitesText).length, error: "" };
+  } catch (err) {
+      existingSitesInfo = { count: 0, error: err instanceof Error ? err.message : "Could not parse existing sites" };
+  }
+
+  const handleExistingSitesFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (file) props.setExistingSitesText(await file.text());
+      e.target.value = "";
+  };
 
   return (
     <Card className="border-border/60 shadow-xl bg-card/40 backdrop-blur-xl pt-2">
@@ -124,7 +191,7 @@ export function ConfigurationForm(props: ConfigurationFormProps) {
           <div className="md:col-span-4 space-y-2">
              <Label className="text-base font-semibold">Supernet Scope</Label>
              <p className="text-sm text-muted-foreground leading-relaxed">
-               The root CIDR block to be carved up. Usually your entire private IP allocation (RFC1918).
+               The root CIDR block to be carved up. Usually your entire private IP allocation (RFC1918), or an IPv6 prefix such as a /32 or /48.
              </p>
           </div>
           <div className="md:col-span-8 space-y-4">
@@ -178,6 +245,141 @@ export function ConfigurationForm(props: ConfigurationFormProps) {
 
         <div className="h-px bg-gradient-to-r from-transparent via-border/60 to-transparent" />
 
+        {/* Section 1b: Dual-Stack */}
+        <div className="grid grid-cols-1 md:grid-cols-12 gap-8 items-start">
+          <div className="md:col-span-4 space-y-2">
+             <Label className="text-base font-semibold">Dual-Stack</Label>
+             <p className="text-sm text-muted-foreground leading-relaxed">
+               Pair every IPv4 block with an IPv6 prefix. IPv4 octets are embedded in the IPv6 nibbles so each VLAN gets a predictable /64.
+             </p>
+          </div>
+          <div className="md:col-span-8 space-y-4">
+                <Button
+                    variant={props.dualStack ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => props.setDualStack(!props.dualStack)}
+                    disabled={!isIpv4Primary}
+                    className="gap-2"
+                >
+                    <Split className="w-4 h-4" />
+                    {props.dualStack ? "Dual-Stack Enabled" : "Enable Dual-Stack"}
+                </Button>
+                {props.dualStack && isIpv4Primary && (
+                    <div className="relative group animate-in fade-in">
+                      <Input
+                        id="ipv6-supernet"
+                        value={props.ipv6Supernet}
+                        onChange={(e) => props.setIpv6Supernet(e.target.value)}
+                        placeholder="e.g. 2001:db8::/32"
+                        className={cn(
+                            "font-mono h-11 pl-4 pr-12 transition-all border-2 bg-background/50",
+                            ipv6SupernetValid ? "border-emerald-500/30 focus-visible:border-emerald-500/50" : "border-destructive/50 focus-visible:ring-destructive/20"
+                        )}
+                      />
+                      {ipv6SupernetValid
+                        ? <CheckCircle2 className="absolute right-4 top-3 w-5 h-5 text-emerald-500 animate-in zoom-in" />
+                        : <AlertCircle className="absolute right-4 top-3 w-5 h-5 text-destructive animate-in zoom-in" />}
+                    </div>
+                )}
+                {!isIpv4Primary && (
+                    <p className="text-xs text-muted-foreground">Available when the primary supernet is IPv4.</p>
+                )}
+          </div>
+        </div>
+
+        <div className="h-px bg-gradient-to-r from-transparent via-border/60 to-transparent" />
+
+        {/* Section 1c: Exclusions */}
+        <div className="grid grid-cols-1 md:grid-cols-12 gap-8 items-start">
+          <div className="md:col-span-4 space-y-2">
+             <Label className="text-base font-semibold flex items-center gap-2">
+                <Ban className="w-4 h-4 text-muted-foreground" />
+                Reserved Ranges
+             </Label>
+             <p className="text-sm text-muted-foreground leading-relaxed">
+               Blocks already used by data centres, partner links or legacy networks. Regions are placed around them.
+             </p>
+          </div>
+          <div className="md:col-span-8 space-y-3">
+                <textarea
+                    id="exclusions"
+                    value={props.exclusionsText}
+                    onChange={(e) => props.setExclusionsText(e.target.value)}
+                    placeholder={"One CIDR per line, e.g.\n10.0.0.0/16\n10.200.0.0/13"}
+                    rows={4}
+                    className={cn(
+                        "w-full rounded-md border-2 bg-background/50 px-4 py-3 font-mono text-sm shadow-xs outline-none transition-all placeholder:text-muted-foreground focus-visible:ring-[3px]",
+                        invalidExclusions.length > 0 ? "border-destructive/50 focus-visible:ring-destructive/20" : "focus-visible:ring-primary/20"
+                    )}
+                />
+                <div className="flex flex-wrap gap-2">
+                    {exclusionEntries.length > 0 && (
+                        <Badge variant="outline" className="font-mono text-xs">
+                            {exclusionEntries.length - invalidExclusions.length} excluded
+                        </Badge>
+                    )}
+                    {invalidExclusions.map((entry) => (
+                        <Badge key={entry} variant="outline" className="font-mono text-xs border-destructive/30 text-destructive">
+                            Invalid: {entry}
+                        </Badge>
+                    ))}
+                </div>
+          </div>
+        </div>
+
+        <div className="h-px bg-gradient-to-r from-transparent via-border/60 to-transparent" />
+
+        {/* Section 1d: Brownfield */}
+        <div className="grid grid-cols-1 md:grid-cols-12 gap-8 items-start">
+          <div className="md:col-span-4 space-y-2">
+             <Label className="text-base font-semibold flex items-center gap-2">
+                <MapPinned className="w-4 h-4 text-muted-foreground" />
+                Existing Sites
+             </Label>
+             <p className="text-sm text-muted-foreground leading-relaxed">
+               Import already-numbered sites (CSV or JSON with name, region, cidr). They are pinned into their territory and new sites only use the remaining space.
+             </p>
+          </div>
+          <div className="md:col-span-8 space-y-3">
+                <textarea
+                    id="existing-sites"
+                    value={props.existingSitesText}
+                    onChange={(e) => props.setExistingSitesText(e.target.value)}
+                    placeholder={"name,region,cidr\nNYC-01,Orion,10.0.0.0/21"}
+                    rows={4}
+                    className={cn(
+                        "w-full rounded-md border-2 bg-background/50 px-4 py-3 font-mono text-sm shadow-xs outline-none transition-all placeholder:text-muted-foreground focus-visible:ring-[3px]",
+                        existingSitesInfo.error ? "border-destructive/50 focus-visible:ring-destructive/20" : "focus-visible:ring-primary/20"
+                    )}
+                />
+                <div className="flex flex-wrap gap-2 items-center">
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".csv,.json,text/csv,application/json"
+                        className="hidden"
+                        onChange={handleExistingSitesFile}
+                    />
+                    <Button variant="secondary" size="sm" onClick={() => fileInputRef.current?.click()} className="h-8 text-xs gap-2">
+                        <Upload className="w-3.5 h-3.5" />
+                        Load File
+                    </Button>
+                    {existingSitesInfo.count > 0 && (
+                        <Badge variant="outline" className="font-mono text-xs">
+                            {existingSitesInfo.count} sites
+                        </Badge>
+                    )}
+                    {existingSitesInfo.error && (
+                        <Badge variant="outline" className="text-xs border-destructive/30 text-destructive">
+                            {existingSitesInfo.error}
+                        </Badge>
+                    )}
+                </div>
+          </div>
+        </div>
+
+        <div className="h-px bg-gradient-to-r from-transparent via-border/60 to-transparent" />
+
         {/* Section 2: Topology */}
         <div className="grid grid-cols-1 md:grid-cols-12 gap-8 items-start">
            <div className="md:col-span-4 space-y-2">
@@ -192,17 +394,29 @@ export function ConfigurationForm(props: ConfigurationFormProps) {
                  <NumberControl value={props.regionCount} onChange={props.setRegionCount} min={1} max={6} />
             </TopologyCard>
 
-            <TopologyCard icon={Layers} color="text-indigo-500" bg="bg-indigo-500/10" label="Territories" subtext="Sub-areas per region">
-                <NumberControl value={props.subRegionsPerRegion} onChange={props.setSubRegionsPerRegion} min={1} max={16} />
+            <TopologyCard icon={Layers} color="text-indigo-500" bg="bg-indigo-500/10" label="Territories" subtext={props.levelsText.trim() ? "Set by the level template" : "Per region, unless it lists its own"}>
+                <NumberControl value={props.subRegionsPerRegion} onChange={props.setSubRegionsPerRegion} min={1} max={16} disabled={Boolean(props.levelsText.trim())} />
             </TopologyCard>
 
-             <TopologyCard icon={Building} color="text-emerald-500" bg="bg-emerald-500/10" label="Total Sites" subtext="Physical locations needed">
-                <NumberControl value={props.sitesNeeded} onChange={props.setSitesNeeded} min={1} max={100000} step={10} />
+             <TopologyCard icon={Building} color="text-emerald-500" bg="bg-emerald-500/10" label="Total Sites" subtext={props.sizeByDemand ? "Sum of the region site counts" : props.siteTiersText.trim() ? "Sum of the site tier counts" : "Physical locations needed"}>
+                <NumberControl value={props.sitesNeeded} onChange={props.setSitesNeeded} min={1} max={100000} step={10} disabled={props.sizeByDemand || Boolean(props.siteTiersText.trim())} />
             </TopologyCard>
 
              <TopologyCard icon={Settings2} color="text-orange-500" bg="bg-orange-500/10" label="VLANs per Site" subtext="Segments per location">
                 <NumberControl value={props.vlansPerSite} onChange={props.setVlansPerSite} min={1} max={64} />
             </TopologyCard>
+
+            <div className="sm:col-span-2">
+              <TopologyCard icon={ListTree} color="text-sky-500" bg="bg-sky-500/10" label="Levels Below Regions" subtext="Optional level template">
+                  <LevelTemplateInput text={props.levelsText} onChange={props.setLevelsText} territories={props.subRegionsPerRegion} />
+              </TopologyCard>
+            </div>
+
+            <div className="sm:col-span-2">
+              <TopologyCard icon={Boxes} color="text-rose-500" bg="bg-rose-500/10" label="Site Tiers" subtext="Optional site sizes with their own VLANs">
+                  <SiteTiersInput text={props.siteTiersText} onChange={props.setSiteTiersText} vlansPerSite={props.vlansPerSite} vlanSize={props.vlanSize} />
+              </TopologyCard>
+            </div>
           </div>
         </div>
 
@@ -233,15 +447,17 @@ export function ConfigurationForm(props: ConfigurationFormProps) {
                     <Slider
                         value={[props.vlanSize]}
                         onValueChange={([val]) => props.setVlanSize(val)}
-                        min={20} max={28} step={1}
+                        min={vlanRange.min} max={vlanRange.max} step={1}
                         className="w-full cursor-pointer"
                     />
                  </div>
 
                 <div className="grid grid-cols-3 text-center text-xs text-muted-foreground font-mono pt-2">
-                    <div className="text-left">/20<br/>4094 hosts</div>
-                    <div>/24<br/>254 hosts</div>
-                    <div className="text-right">/28<br/>14 hosts</div>
+                    {vlanRange.marks.map((mark, i) => (
+                        <div key={mark.prefix} className={cn(i === 0 && "text-left", i === vlanRange.marks.length - 1 && "text-right")}>
+                            /{mark.prefix}<br/>{mark.hosts}
+                        </div>
+                    ))}
                 </div>
              </div>
           </div>
@@ -255,10 +471,31 @@ export function ConfigurationForm(props: ConfigurationFormProps) {
                 <div className="space-y-1">
                     <Label className="text-base font-semibold">Regional Weighting</Label>
                     <p className="text-sm text-muted-foreground">
-                        Allocate extra address space to high-growth regions.
+                        {props.sizeByDemand
+                            ? "Each region and territory gets the smallest block that holds its sites times the growth multiplier."
+                            : "Allocate extra address space to high-growth regions. Each region is one aligned block, so its share rounds to a power of two: 3:2:1 gets 1/2, 1/4 and 1/8 of the supernet and leaves 1/8 unallocated, while 2:1:1 splits exactly."}
                     </p>
                 </div>
+                <div className="flex gap-1 rounded-lg border p-1 bg-background/50">
+                    <Button variant={props.sizeByDemand ? "ghost" : "secondary"} size="sm" className="h-7 text-xs" onClick={() => props.setSizeByDemand(false)}>
+                        Weights
+                    </Button>
+                    <Button variant={props.sizeByDemand ? "secondary" : "ghost"} size="sm" className="h-7 text-xs" onClick={() => props.setSizeByDemand(true)}>
+                        Site counts
+                    </Button>
+                </div>
             </div>
+
+            {props.sizeByDemand && (
+                <div className="flex flex-wrap items-center gap-4 animate-in fade-in">
+                    <div className="w-48">
+                        <NumberControl value={props.growthMultiplier} onChange={props.setGrowthMultiplier} min={1} max={10} step={0.5} />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                        Growth multiplier: room for {props.growthMultiplier}x the expected sites.
+                    </p>
+                </div>
+            )}
             
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
             {Array.from({ length: props.regionCount }).map((_, i) => (
@@ -272,19 +509,36 @@ export function ConfigurationForm(props: ConfigurationFormProps) {
                     {props.regionThemes[i]?.name || `Region ${i + 1}`}
                   </Label>
                   <Badge variant="outline" className="font-mono text-xs bg-background">
-                      {props.regionRatios[i]}x
+                      {props.sizeByDemand ? "sites" : `${props.regionRatios[i]}x`}
                   </Badge>
                 </div>
-                <Slider
-                  value={[Math.log2(props.regionRatios[i])]}
-                  onValueChange={([val]) => props.updateRegionRatio(i, Math.pow(2, val))}
-                  min={0} max={3} step={1}
-                  className="w-full"
+                <RegionTerritories
+                  text={props.territoriesText[i] ?? ""}
+                  onChange={(text) => props.updateTerritories(i, text)}
+                  defaultCount={props.subRegionsPerRegion}
                 />
-                <div className="flex justify-between text-[10px] text-muted-foreground mt-3 font-medium uppercase tracking-wider">
-                    <span>Std</span>
-                    <span>Large</span>
-                </div>
+                {props.sizeByDemand ? (
+                  <RegionDemand
+                    sites={props.regionSites[i] ?? 0}
+                    onSitesChange={(sites) => props.updateRegionSites(i, sites)}
+                    territoryText={props.territorySitesText[i] ?? ""}
+                    onTerritoryTextChange={(text) => props.updateTerritorySites(i, text)}
+                    territories={territoryCount(props.territoriesText[i] ?? "", props.subRegionsPerRegion)}
+                  />
+                ) : (
+                  <>
+                    <Slider
+                      value={[props.regionRatios[i]]}
+                      onValueChange={([val]) => props.updateRegionRatio(i, val)}
+                      min={1} max={8} step={1}
+                      className="w-full"
+                    />
+                    <div className="flex justify-between text-[10px] text-muted-foreground mt-3 font-medium uppercase tracking-wider">
+                        <span>Std</span>
+                        <span>Large</span>
+                    </div>
+                  </>
+                )}
               </div>
             ))}
           </div>
@@ -295,6 +549,141 @@ export function ConfigurationForm(props: ConfigurationFormProps) {
   );
 }
 
+// Territories a region will get: its own list when it parses, else the default count
+function territoryCount(text: string, defaultCount: number) {
+  try {
+    return TerritoryList.parse(text).length || defaultCount;
+  } catch {
+    return defaultCount;
+  }
+}
+
+// Optional named territory list for one region
+function RegionTerritories({ text, onChange, defaultCount }: { text: string; onChange: (text: string) => void; defaultCount: number }) {
+  let status = { message: `${defaultCount} numbered territories`, error: false };
+  try {
+    const territories = TerritoryList.parse(text);
+    if (territories.length > 0) {
+      status = { message: `${territories.length} named territor${territories.length === 1 ? "y" : "ies"}`, error: false };
+    }
+  } catch (err) {
+    status = { message: err instanceof Error ? err.message : "Could not read the territory list", error: true };
+  }
+
+  return (
+    <div className="space-y-1 mb-4">
+      <Input
+        value={text}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Territories, e.g. France:FR:2, Germany:DE"
+        className={cn("h-8 font-mono text-xs bg-background/50", status.error && "border-destructive/50")}
+      />
+      <p className={cn("text-[10px]", status.error ? "text-destructive" : "text-muted-foreground")}>{status.message}</p>
+    </div>
+  );
+}
+
+// Tiers between regions and sites, e.g. City:4, Campus:2; blank keeps territories
+function LevelTemplateInput({ text, onChange, territories }: { text: string; onChange: (text: string) => void; territories: number }) {
+  let status = { message: `Region > ${territories} territories > Sites`, error: false };
+  try {
+    const levels = LevelList.parse(text);
+    if (levels) {
+      status = {
+        message: ["Region", ...levels.map((l) => `${l.name} (${l.weights ? l.weights.join("/") : l.count})`), "Sites"].join(" > "),
+        error: false,
+      };
+    }
+  } catch (err) {
+    status = { message: err instanceof Error ? err.message : "Could not read the level template", error: true };
+  }
+
+  return (
+    <div className="space-y-1">
+      <Input
+        value={text}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="e.g. City:4, Campus:2/1:{parent} C{n}, or none"
+        className={cn("h-8 font-mono text-xs bg-background/50", status.error && "border-destructive/50")}
+      />
+      <p className={cn("text-[10px]", status.error ? "text-destructive" : "text-muted-foreground")}>{status.message}</p>
+    </div>
+  );
+}
+
+// Site sizes as Name:VLANs:VLAN size:sites, e.g. HQ:40:24:5; blank keeps one standard site
+function SiteTiersInput({ text, onChange, vlansPerSite, vlanSize }: { text: string; onChange: (text: string) => void; vlansPerSite: number; vlanSize: number }) {
+  let status = { message: `Every site: ${vlansPerSite} x /${vlanSize} VLANs`, error: false };
+  try {
+    const tiers = SiteTierList.parse(text);
+    if (tiers) {
+      status = {
+        message: tiers.map((t) => `${t.sitesNeeded.toLocaleString()} ${t.name} (${t.vlansPerSite} x /${t.vlanSize})`).join(", "),
+        error: false,
+      };
+    }
+  } catch (err) {
+    status = { message: err instanceof Error ? err.message : "Could not read the site tiers", error: true };
+  }
+
+  return (
+    <div className="space-y-1">
+      <Input
+        value={text}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="e.g. HQ:40:24:5, Branch:8:24:200, Kiosk:2:28:1000"
+        className={cn("h-8 font-mono text-xs bg-background/50", status.error && "border-destructive/50")}
+      />
+      <p className={cn("text-[10px]", status.error ? "text-destructive" : "text-muted-foreground")}>{status.message}</p>
+    </div>
+  );
+}
+
+interface RegionDemandProps {
+  sites: number;
+  onSitesChange: (sites: number) => void;
+  territoryText: string;
+  onTerritoryTextChange: (text: string) => void;
+  territories: number;
+}
+
+// Site count for one region, optionally broken down per territory
+function RegionDemand({ sites, onSitesChange, territoryText, onTerritoryTextChange, territories }: RegionDemandProps) {
+  const entries = territoryText.split(/[\s,]+/).filter(Boolean);
+  const counts = entries.map(Number);
+  const invalid = counts.some((n) => !Number.isInteger(n) || n < 0);
+  const perTerritory = entries.length > 0;
+
+  return (
+    <div className="space-y-3">
+      <NumberControl
+        value={perTerritory && !invalid ? counts.reduce((sum, n) => sum + n, 0) : sites}
+        onChange={(value) => onSitesChange(Math.max(0, Math.round(value)))}
+        min={0}
+        max={100000}
+        step={10}
+        disabled={perTerritory}
+      />
+      <Input
+        value={territoryText}
+        onChange={(e) => onTerritoryTextChange(e.target.value)}
+        placeholder={`Per territory, e.g. ${Array.from({ length: territories }, (_, i) => (i === 0 ? 40 : 10)).join(", ")}`}
+        className={cn(
+          "h-8 font-mono text-xs bg-background/50",
+          perTerritory && (invalid || entries.length !== territories) && "border-destructive/50"
+        )}
+      />
+      <p className="text-[10px] text-muted-foreground">
+        {!perTerritory
+          ? `Split evenly across ${territories} territories`
+          : invalid
+            ? "Use whole numbers"
+            : `${entries.length} of ${territories} territories`}
+      </p>
+    </div>
+  );
+}
+
 // Helper component for the topology grid
 function TopologyCard({ icon: Icon, color, bg, label, subtext, children }: any) {
     return (
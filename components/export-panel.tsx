@@ -0,0 +1,345 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Download, Eye, FileArchive, FileCode2, FileDown, Loader2, Network, Printer } from "lucide-react";
+import type { AllocationConfig, AllocationResult } from "@/lib/hierarchical-allocator";
+import { CsvExport } from "@/lib/csv-export";
+import { SitePlan } from "@/lib/site-plan";
+import { TerraformExport } from "@/lib/terraform-export";
+import { AnsibleExport } from "@/lib/ansible-export";
+import { NetBoxExport, type NetBoxFormat } from "@/lib/netbox-export";
+import { ReverseDNS, DEFAULT_REVERSE_DNS_OPTIONS } from "@/lib/reverse-dns";
+import { DesignReport } from "@/lib/design-report";
+import { ZipArchive } from "@/lib/zip-archive";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn, downloadFile, fileSlug, type ExportFile } from "@/lib/utils";
+
+interface ExportPanelProps {
+  config: AllocationConfig;
+  result: AllocationResult;
+  sitesNeeded: number;
+  vlanSize: number;
+  vlansPerSite: number;
+  vlanPrefixes: number[];
+}
+
+interface ExportToolProps {
+  result: AllocationResult;
+  vlanTemplate: number[]; // Prefix length of each VLAN in a site
+  perTerritory: number; // Planned sites per territory for per-site exports
+}
+
+const FILE_LIST_LIMIT = 8;
+
+function formatBytes(text: string) {
+  const bytes = new TextEncoder().encode(text).length;
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+// File list with per-file download, an inline preview and an optional .zip of everything
+function GeneratedFiles({ files, archiveName }: { files: ExportFile[]; archiveName?: string }) {
+  const [preview, setPreview] = useState<string | null>(null);
+  const previewFile = files.find((f) => f.name === preview);
+
+  const downloadArchive = () => {
+    if (!archiveName) return;
+    downloadFile(archiveName, new Blob([ZipArchive.create(files) as BlobPart], { type: "application/zip" }));
+  };
+
+  return (
+    <div className="space-y-3">
+      {archiveName && (
+        <Button size="sm" onClick={downloadArchive} className="gap-2">
+          <FileArchive className="w-4 h-4" />
+          Download {files.length.toLocaleString()} files (.zip)
+        </Button>
+      )}
+      <div className="divide-y divide-border/50 rounded-lg border border-border/50">
+        {files.slice(0, FILE_LIST_LIMIT).map((file) => (
+          <div key={file.name} className="flex items-center justify-between gap-3 px-4 py-2.5">
+            <div className="flex items-center gap-2 min-w-0">
+              <FileCode2 className="w-4 h-4 text-muted-foreground shrink-0" />
+              <span className="font-mono text-sm truncate">{file.name}</span>
+              <span className="text-xs text-muted-foreground shrink-0">{formatBytes(file.content)}</span>
+            </div>
+            <div className="flex gap-1 shrink-0">
+              <Button
+                variant={preview === file.name ? "secondary" : "ghost"}
+                size="icon"
+                onClick={() => setPreview(preview === file.name ? null : file.name)}
+                title="Preview"
+              >
+                <Eye className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => downloadFile(file.name, file.content, file.mimeType)} title="Download">
+                <Download className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        {files.length > FILE_LIST_LIMIT && (
+          <div className="px-4 py-2.5 text-xs text-muted-foreground">
+            and {(files.length - FILE_LIST_LIMIT).toLocaleString()} more in the archive
+          </div>
+        )}
+      </div>
+      {previewFile && (
+        <pre className="max-h-80 overflow-auto rounded-lg border border-border/50 bg-muted/30 p-4 font-mono text-xs leading-relaxed">
+          {previewFile.content}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+function TerraformExportTool({ result, vlanTemplate }: ExportToolProps) {
+  const files = useMemo(() => TerraformExport.files(result, vlanTemplate), [result, vlanTemplate]);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        A module with region and territory CIDR maps. To look up a site, add <span className="font-mono">{"{ territory, index }"}</span> entries
+        to <span className="font-mono">site_lookups</span>. The <span className="font-mono">sites</span> output then returns each site&apos;s CIDR and its VLANs with gateways.
+      </p>
+      <GeneratedFiles files={files} />
+    </div>
+  );
+}
+
+function AnsibleExportTool({ result, vlanTemplate, perTerritory }: ExportToolProps) {
+  const files = useMemo(
+    () => AnsibleExport.files(result, vlanTemplate, { perTerritory }),
+    [result, vlanTemplate, perTerritory]
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        An inventory with a group for each region and territory. Each site is a host with a <span className="font-mono">host_vars</span> file
+        holding its CIDR and VLAN list (id, cidr, gateway).
+      </p>
+      <GeneratedFiles files={files} archiveName={`ansible-${fileSlug(result.hierarchy.cidr)}.zip`} />
+    </div>
+  );
+}
+
+function NetBoxExportTool({ result, vlanTemplate, perTerritory }: ExportToolProps) {
+  const [format, setFormat] = useState<NetBoxFormat>("csv");
+  const files = useMemo(
+    () => NetBoxExport.files(result, vlanTemplate, { format, perTerritory }),
+    [result, vlanTemplate, format, perTerritory]
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Bulk-import files for NetBox, numbered in import order: Regions, Site Groups for territories, prefix roles, a VLAN group per site,
+        its VLANs, then every prefix from supernet down to VLAN as <span className="font-mono">container</span> or <span className="font-mono">active</span>.
+      </p>
+      <div className="flex flex-wrap items-center gap-2">
+        {(["csv", "json"] as const).map((option) => (
+          <Button
+            key={option}
+            variant={format === option ? "default" : "outline"}
+            size="sm"
+            onClick={() => setFormat(option)}
+            className="font-mono uppercase"
+          >
+            {option}
+          </Button>
+        ))}
+      </div>
+      <GeneratedFiles files={files} archiveName={`netbox-${fileSlug(result.hierarchy.cidr)}.zip`} />
+    </div>
+  );
+}
+
+function ReverseDnsExportTool({ result, perTerritory }: ExportToolProps) {
+  const [nameserverText, setNameserverText] = useState(DEFAULT_REVERSE_DNS_OPTIONS.nameservers.join(", "));
+  // Nameservers are written as absolute names
+  const nameservers = useMemo(
+    () => nameserverText.split(/[\s,]+/).filter(Boolean).map((ns) => (ns.endsWith(".") ? ns : `${ns}.`)),
+    [nameserverText]
+  );
+  const files = useMemo(
+    () => ReverseDNS.files(result, { ...DEFAULT_REVERSE_DNS_OPTIONS, nameservers, perTerritory }),
+    [result, nameservers, perTerritory]
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Reverse zones for every region, territory and site, with NS delegations from each parent zone. Blocks off an octet boundary
+        span several zones. Blocks smaller than a /24 use RFC 2317 classless delegation with <span className="font-mono">$GENERATE</span> CNAMEs.
+        The export includes a zone index, a <span className="font-mono">named.conf</span> fragment and a BIND zone file skeleton for each zone.
+      </p>
+      <div className="flex flex-wrap items-center gap-3">
+        <Label htmlFor="reverse-dns-nameservers" className="text-xs uppercase tracking-wider text-muted-foreground">
+          Nameservers
+        </Label>
+        <Input
+          id="reverse-dns-nameservers"
+          value={nameserverText}
+          onChange={(e) => setNameserverText(e.target.value)}
+          className="h-8 w-80 font-mono bg-background/50"
+        />
+      </div>
+      <GeneratedFiles files={files} archiveName={`reverse-dns-${fileSlug(result.hierarchy.cidr)}.zip`} />
+    </div>
+  );
+}
+
+function ReportExportTool({ config, result, vlanTemplate }: ExportToolProps & { config: AllocationConfig }) {
+  const files = useMemo(() => {
+    const blocks = DesignReport.blocks(config, result, vlanTemplate);
+    const slug = fileSlug(result.hierarchy.cidr);
+    return [
+      { name: `ipam-report-${slug}.md`, content: DesignReport.toMarkdown(blocks), mimeType: "text/markdown" },
+      { name: `ipam-report-${slug}.html`, content: DesignReport.toHTML(blocks), mimeType: "text/html" },
+    ];
+  }, [config, result, vlanTemplate]);
+
+  // Opens the HTML report in a new tab and brings up the print dialog (Save as PDF)
+  const printReport = () => {
+    const url = URL.createObjectURL(new Blob([files[1].content], { type: "text/html" }));
+    const page = window.open(url, "_blank");
+    page?.addEventListener("load", () => page.print());
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        A design document for change review. It includes the configuration inputs, summary, region breakdown, warnings and
+        recommendations, the hierarchy tree and the standard site VLAN table. The HTML version is styled for printing.
+      </p>
+      <Button size="sm" onClick={printReport} className="gap-2">
+        <Printer className="w-4 h-4" />
+        Print / Save as PDF
+      </Button>
+      <GeneratedFiles files={files} />
+    </div>
+  );
+}
+
+function CsvExportTool({ result, vlanTemplate }: ExportToolProps) {
+  const [includeVlans, setIncludeVlans] = useState(false);
+  const [rowsWritten, setRowsWritten] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleExport = async () => {
+    setBusy(true);
+    setRowsWritten(0);
+    try {
+      const blob = await CsvExport.toBlob(
+        result,
+        { includeVlans, vlanPrefixes: vlanTemplate },
+        setRowsWritten
+      );
+      downloadFile(`ipam-${includeVlans ? "vlans" : "sites"}-${fileSlug(result.hierarchy.cidr)}.csv`, blob);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Every site slot in every territory with its region, territory and CIDR. Pinned existing sites are listed with status <span className="font-mono">existing</span>.
+      </p>
+      <div className="flex flex-wrap items-center gap-3">
+        <Button
+          variant={includeVlans ? "default" : "outline"}
+          size="sm"
+          onClick={() => setIncludeVlans(!includeVlans)}
+          disabled={busy}
+          className="gap-2"
+        >
+          <Network className="w-4 h-4" />
+          {includeVlans ? "One Row per VLAN" : "One Row per Site"}
+        </Button>
+        <Button size="sm" onClick={handleExport} disabled={busy} className="gap-2">
+          {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          Download CSV
+        </Button>
+        {rowsWritten !== null && (
+          <Badge variant="outline" className={cn("font-mono text-xs", !busy && "bg-emerald-500/5 text-emerald-600 border-emerald-500/20")}>
+            {rowsWritten.toLocaleString()} rows {busy ? "written…" : "exported"}
+          </Badge>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function ExportPanel({ config, result, sitesNeeded, vlanSize, vlansPerSite, vlanPrefixes }: ExportPanelProps) {
+  const vlanTemplate = useMemo(
+    () => SitePlan.vlanPrefixes(vlansPerSite, vlanSize, vlanPrefixes),
+    [vlansPerSite, vlanSize, vlanPrefixes]
+  );
+  // Per-site exports default to an even share of the sites needed, not every free slot
+  const territoryCount = Math.max(1, SitePlan.pools(result).length);
+  const [perTerritory, setPerTerritory] = useState(Math.ceil(sitesNeeded / territoryCount));
+  const toolProps = { result, vlanTemplate, perTerritory };
+
+  return (
+    <Card className="border-border/60 shadow-xl bg-card/40 backdrop-blur-xl pt-2">
+      <CardHeader className="bg-muted/20 m-4 p-2 rounded-xl">
+        <div className="flex items-center gap-2">
+          <FileDown className="w-5 h-5 text-primary" />
+          <CardTitle className="text-xl">Exports</CardTitle>
+        </div>
+        <CardDescription>Download the plan in formats for provisioning and automation tools.</CardDescription>
+      </CardHeader>
+      <CardContent className="px-6 pb-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <Label htmlFor="sites-per-territory" className="text-xs uppercase tracking-wider text-muted-foreground">
+            Sites per territory
+          </Label>
+          <Input
+            id="sites-per-territory"
+            type="number"
+            min={1}
+            value={perTerritory}
+            onChange={(e) => setPerTerritory(Math.max(1, Number(e.target.value) || 1))}
+            className="h-8 w-28 font-mono bg-background/50"
+          />
+          <span className="text-xs text-muted-foreground">
+            Used by per-site exports. The CSV always lists every slot.
+          </span>
+        </div>
+        <Tabs defaultValue="csv">
+          <TabsList>
+            <TabsTrigger value="csv">CSV</TabsTrigger>
+            <TabsTrigger value="terraform">Terraform</TabsTrigger>
+            <TabsTrigger value="ansible">Ansible</TabsTrigger>
+            <TabsTrigger value="netbox">NetBox</TabsTrigger>
+            <TabsTrigger value="reverse-dns">Reverse DNS</TabsTrigger>
+            <TabsTrigger value="report">Report</TabsTrigger>
+          </TabsList>
+          <TabsContent value="csv" className="pt-4">
+            <CsvExportTool {...toolProps} />
+          </TabsContent>
+          <TabsContent value="terraform" className="pt-4">
+            <TerraformExportTool {...toolProps} />
+          </TabsContent>
+          <TabsContent value="ansible" className="pt-4">
+            <AnsibleExportTool {...toolProps} />
+          </TabsContent>
+          <TabsContent value="netbox" className="pt-4">
+            <NetBoxExportTool {...toolProps} />
+          </TabsContent>
+          <TabsContent value="reverse-dns" className="pt-4">
+            <ReverseDnsExportTool {...toolProps} />
+          </TabsContent>
+          <TabsContent value="report" className="pt-4">
+            <ReportExportTool config={config} {...toolProps} />
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,9 +2,12 @@ import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { ChevronDown, Box, LayoutGrid, ArrowRight } from "lucide-react";
-import type { AllocationResult } from "@/lib/hierarchical-allocator";
+import { ChevronDown, Box, LayoutGrid, ArrowRight, Ban } from "lucide-react";
+import type { AllocationResult, HierarchyLevel } from "@/lib/hierarchical-allocator";
 import { CIDRMath } from "@/lib/cidr-math";
+import { DualStackMapper } from "@/lib/dual-stack";
+import { Brownfield } from "@/lib/brownfield";
+import { SitePlan } from "@/lib/site-plan";
 import { cn } from "@/lib/utils";
 
 interface HierarchyViewProps {
@@ -15,11 +18,13 @@ interface HierarchyViewProps {
 function TerritorySitePreview({
   siteId,
   cidr,
+  ipv6Cidr,
   vlanCount,
   label
 }: {
   siteId: string;
   cidr: string;
+  ipv6Cidr?: string;
   vlanCount: number;
   label: string;
 }) {
@@ -36,6 +41,9 @@ function TerritorySitePreview({
         <span className="font-mono text-primary font-medium">{cidr}</span>
         <span className="text-muted-foreground">{vlanCount} VLANs</span>
       </div>
+      {ipv6Cidr && (
+        <div className="font-mono text-purple-600 dark:text-purple-400 font-medium truncate">{ipv6Cidr}</div>
+      )}
     </div>
   );
 }
@@ -55,6 +63,20 @@ export function HierarchyView({ result, regionThemes }: HierarchyViewProps) {
     });
   };
 
+  // Region cards list the blocks sites are carved from: territories by
+  // default, the deepest tier of a level template, site tier pools, or the
+  // region itself
+  const pools = SitePlan.pools(result);
+  const poolLabel = (pool?: HierarchyLevel) => {
+    if (pool?.metadata?.siteTier) return "Site Tier Pools";
+    const level = pool?.metadata?.level;
+    return level === undefined ? "Site Blocks" : level === "Territory" ? "Territories" : level;
+  };
+
+  const mapper = result.dualStack
+    ? new DualStackMapper(result.hierarchy.cidr, result.dualStack.ipv6Supernet, result.dualStack.vlanSize)
+    : undefined;
+
   const getRegionCode = (regionName: string) => {
     const theme = regionThemes.find(t => t.name === regionName);
     return theme?.code || regionName.substring(0, 3).toUpperCase();
@@ -80,7 +102,7 @@ export function HierarchyView({ result, regionThemes }: HierarchyViewProps) {
       </CardHeader>
       <CardContent className="pt-6 space-y-4 px-6">
         {result.hierarchy.children
-          ?.filter((r) => r.name !== "Unallocated")
+          ?.filter((r) => !r.metadata?.unallocated && !r.metadata?.excluded)
           .map((region, index) => (
             <Collapsible
               key={region.id}
@@ -102,6 +124,11 @@ export function HierarchyView({ result, regionThemes }: HierarchyViewProps) {
                         <Badge variant="secondary" className="font-mono text-xs bg-muted/50 border-border">
                           {region.cidr}
                         </Badge>
+                        {region.ipv6 && (
+                          <Badge variant="secondary" className="font-mono text-xs bg-purple-500/5 border-purple-500/20 text-purple-600 dark:text-purple-400">
+                            {region.ipv6.cidr}
+                          </Badge>
+                        )}
                       </div>
                       <div className="flex items-center gap-2 mt-1.5 text-xs text-muted-foreground">
                         <span>{region.metadata?.sitesCapacity?.toLocaleString()} sites cap.</span>
@@ -113,8 +140,10 @@ export function HierarchyView({ result, regionThemes }: HierarchyViewProps) {
                   
                   <div className="flex items-center gap-4">
                     <div className="hidden sm:block text-right mr-4">
-                       <div className="text-xs uppercase tracking-wider text-muted-foreground font-medium">Territories</div>
-                       <div className="font-mono font-bold text-lg">{region.children?.length || 0}</div>
+                       <div className="text-xs uppercase tracking-wider text-muted-foreground font-medium">
+                         {poolLabel(pools.find((p) => p.region === region)?.territory)}
+                       </div>
+                       <div className="font-mono font-bold text-lg">{pools.filter((p) => p.region === region).length}</div>
                     </div>
                     <ChevronDown
                       className={cn(
@@ -129,22 +158,29 @@ export function HierarchyView({ result, regionThemes }: HierarchyViewProps) {
               <CollapsibleContent>
                 <div className="border-t bg-muted/5 p-5">
                     <div className="grid grid-cols-1 lg:grid-cols-2 gap-5">
-                    {region.children?.map((subRegion, subIndex) => {
+                    {pools.filter((p) => p.region === region).map((pool, subIndex) => {
+                        const subRegion = pool.territory;
                         // Calculate site examples
                         const regionCode = getRegionCode(region.name);
-                        const sitePrefix = result.sitePrefixRecommendation;
+                        const sitePrefix = SitePlan.sitePrefix(result, pool);
+                        const vlanCount = result.siteTiers?.find((t) => t.name === subRegion.metadata?.siteTier)?.vlansPerSite ?? result.summary.vlansPerSite;
                         const { ip: subRegionIp, prefix: subRegionPrefix } = CIDRMath.parseCIDR(subRegion.cidr);
                         const maxSites = Number(CIDRMath.subnetCount(subRegionPrefix, sitePrefix));
                         
+                        // Existing sites are pinned, so new sites start at the first free slot
+                        const pinnedSites = subRegion.children ?? [];
+                        const firstIndex = Brownfield.freeSiteIndex(subRegion, sitePrefix) ?? BigInt(0);
+                        const lastIndex = Brownfield.freeSiteIndex(subRegion, sitePrefix, true) ?? BigInt(maxSites - 1);
+
                         // First Site
-                        const firstSiteCidr = CIDRMath.getNthSubnet(subRegionIp, subRegionPrefix, sitePrefix, BigInt(0));
+                        const firstSiteCidr = CIDRMath.getNthSubnet(subRegionIp, subRegionPrefix, sitePrefix, firstIndex);
                         // Dynamic Padding applied here
-                        const firstSiteId = formatSiteId(regionCode, subIndex, 1, maxSites);
+                        const firstSiteId = formatSiteId(regionCode, subIndex, Number(firstIndex) + 1, maxSites);
                         
                         // Last Site
-                        const lastSiteCidr = CIDRMath.getNthSubnet(subRegionIp, subRegionPrefix, sitePrefix, BigInt(maxSites - 1));
+                        const lastSiteCidr = CIDRMath.getNthSubnet(subRegionIp, subRegionPrefix, sitePrefix, lastIndex);
                         // Dynamic Padding applied here
-                        const lastSiteId = formatSiteId(regionCode, subIndex, maxSites, maxSites);
+                        const lastSiteId = formatSiteId(regionCode, subIndex, Number(lastIndex) + 1, maxSites);
 
                         return (
                         <div
@@ -155,26 +191,55 @@ export function HierarchyView({ result, regionThemes }: HierarchyViewProps) {
                                 <div className="flex items-center gap-2.5">
                                     <span className="flex items-center justify-center w-6 h-6 rounded-full bg-secondary text-xs font-bold text-muted-foreground group-hover/territory:bg-primary/10 group-hover/territory:text-primary transition-colors">{subIndex + 1}</span>
                                     <span className="text-sm font-bold text-foreground">{subRegion.name}</span>
+                                    {subRegion.metadata?.sitesNeeded !== undefined && (
+                                        <span className="text-xs text-muted-foreground">
+                                            {subRegion.metadata.sitesNeeded.toLocaleString()} needed / {subRegion.metadata.sitesCapacity?.toLocaleString()} slots
+                                        </span>
+                                    )}
+                                </div>
+                                <div className="flex flex-col items-end gap-1">
+                                    <Badge variant="outline" className="font-mono text-xs border-primary/20 bg-primary/5 text-primary">
+                                        {subRegion.cidr}
+                                    </Badge>
+                                    {subRegion.ipv6 && (
+                                        <Badge variant="outline" className="font-mono text-xs border-purple-500/20 bg-purple-500/5 text-purple-600 dark:text-purple-400">
+                                            {subRegion.ipv6.cidr}
+                                        </Badge>
+                                    )}
                                 </div>
-                                <Badge variant="outline" className="font-mono text-xs border-primary/20 bg-primary/5 text-primary">
-                                    {subRegion.cidr}
-                                </Badge>
                             </div>
 
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                                 <TerritorySitePreview
-                                    label="Range Start"
+                                    label={pinnedSites.length > 0 ? "First Free" : "Range Start"}
                                     siteId={firstSiteId}
                                     cidr={`${firstSiteCidr}/${sitePrefix}`}
-                                    vlanCount={result.summary.vlansPerSite}
+                                    ipv6Cidr={mapper?.mapPrefix(`${firstSiteCidr}/${sitePrefix}`)}
+                                    vlanCount={vlanCount}
                                 />
                                 <TerritorySitePreview
-                                    label="Range End"
+                                    label={pinnedSites.length > 0 ? "Last Free" : "Range End"}
                                     siteId={lastSiteId}
                                     cidr={`${lastSiteCidr}/${sitePrefix}`}
-                                    vlanCount={result.summary.vlansPerSite}
+                                    ipv6Cidr={mapper?.mapPrefix(`${lastSiteCidr}/${sitePrefix}`)}
+                                    vlanCount={vlanCount}
                                 />
                             </div>
+
+                            {pinnedSites.length > 0 && (
+                                <div className="mt-4 pt-3 border-t border-dashed space-y-2">
+                                    <div className="text-[10px] uppercase tracking-wider text-muted-foreground font-semibold">
+                                        {pinnedSites.length} Existing {pinnedSites.length === 1 ? "Site" : "Sites"}
+                                    </div>
+                                    <div className="flex flex-wrap gap-1.5">
+                                        {pinnedSites.map((site) => (
+                                            <Badge key={site.id} variant="outline" className="font-mono text-[10px] bg-muted/30" title={site.name}>
+                                                {site.name} · {site.cidr}
+                                            </Badge>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
                         </div>
                         );
                     })}
@@ -183,6 +248,33 @@ export function HierarchyView({ result, regionThemes }: HierarchyViewProps) {
               </CollapsibleContent>
             </Collapsible>
           ))}
+
+        {result.hierarchy.children
+          ?.filter((r) => r.metadata?.excluded)
+          .map((excluded) => (
+            <div
+              key={excluded.id}
+              className="flex items-center justify-between p-5 border border-dashed rounded-xl bg-destructive/5 border-destructive/20"
+            >
+              <div className="flex items-center gap-4">
+                <div className="p-2 rounded-lg bg-destructive/10 text-destructive">
+                  <Ban className="w-5 h-5" />
+                </div>
+                <div className="text-left">
+                  <div className="flex items-center gap-3">
+                    <span className="font-bold text-lg tracking-tight text-muted-foreground">{excluded.name}</span>
+                    <Badge variant="secondary" className="font-mono text-xs bg-muted/50 border-border">
+                      {excluded.cidr}
+                    </Badge>
+                  </div>
+                  <div className="mt-1.5 text-xs text-muted-foreground font-mono opacity-75">{excluded.addressRange}</div>
+                </div>
+              </div>
+              <div className="hidden sm:block text-right text-xs text-muted-foreground">
+                {CIDRMath.formatSize(excluded.totalAddresses)} addresses
+              </div>
+            </div>
+          ))}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,139 @@
+import { useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Clock, Copy, FolderOpen, Library, Save, Trash2, Upload } from "lucide-react";
+import type { SavedProject } from "@/lib/project-store";
+import { cn } from "@/lib/utils";
+
+interface ProjectLibraryProps {
+  projects: SavedProject[];
+  activeProjectId: string | null;
+  projectName: string;
+  setProjectName: (value: string) => void;
+  onSave: () => void;
+  onSaveAsNew: () => void;
+  onLoad: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (text: string) => void;
+}
+
+function formatEdited(iso: string) {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+export function ProjectLibrary(props: ProjectLibraryProps) {
+  const activeProject = props.projects.find((p) => p.id === props.activeProjectId);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) props.onImport(await file.text());
+    e.target.value = "";
+  };
+
+  return (
+    <Card className="border-border/60 shadow-xl bg-card/40 backdrop-blur-xl pt-2">
+      <CardHeader className="bg-muted/20 m-4 p-2 rounded-xl">
+        <div className="flex items-center gap-2">
+          <Library className="w-5 h-5 text-primary" />
+          <CardTitle className="text-xl">Projects</CardTitle>
+        </div>
+        <CardDescription>Save named plans in this browser and switch between them, or import a plan exported as JSON.</CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-6 px-6 pb-6">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Input
+            value={props.projectName}
+            onChange={(e) => props.setProjectName(e.target.value)}
+            placeholder="Project name, e.g. Production"
+            className="h-10 bg-background/50"
+          />
+          <div className="flex gap-2">
+            <Button onClick={props.onSave} className="gap-2">
+              <Save className="w-4 h-4" />
+              {activeProject ? "Save" : "Save Project"}
+            </Button>
+            {activeProject && (
+              <Button variant="outline" onClick={props.onSaveAsNew} className="gap-2">
+                <Copy className="w-4 h-4" />
+                Save as New
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="gap-2">
+              <Upload className="w-4 h-4" />
+              Import Plan
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleImportFile}
+              className="hidden"
+            />
+          </div>
+        </div>
+
+        {activeProject && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Clock className="w-3.5 h-3.5" />
+            Last edited {formatEdited(activeProject.updatedAt)}
+          </div>
+        )}
+
+        {props.projects.length > 0 && (
+          <div className="divide-y divide-border/50 rounded-lg border border-border/50">
+            {props.projects.map((project) => (
+              <div
+                key={project.id}
+                className={cn(
+                  "flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-4 py-3",
+                  project.id === props.activeProjectId && "bg-primary/5"
+                )}
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold truncate">{project.name}</span>
+                    {project.id === props.activeProjectId && (
+                      <Badge variant="secondary" className="text-[10px]">Open</Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    <span className="font-mono">{project.config.supernet}</span>
+                    {" · "}
+                    {project.config.regionBiases.length} regions
+                    {" · "}
+                    {project.config.totalSitesNeeded.toLocaleString()} sites
+                    {" · "}
+                    edited {formatEdited(project.updatedAt)}
+                  </div>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button variant="ghost" size="sm" onClick={() => props.onLoad(project.id)} className="gap-1.5">
+                    <FolderOpen className="w-4 h-4" />
+                    Load
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => props.onDuplicate(project.id)} title="Duplicate">
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => props.onDelete(project.id)}
+                    title="Delete"
+                    className="hover:text-destructive"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,9 +1,8 @@
-import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Lightbulb, Copy, Check, PieChart, ShieldAlert, Activity, Info } from "lucide-react";
+import { Lightbulb, Download, PieChart, ShieldAlert, Activity, Info } from "lucide-react";
 import type { AllocationResult } from "@/lib/hierarchical-allocator";
 import { cn } from "@/lib/utils";
 import { Progress } from "@/components/ui/progress";
@@ -11,29 +10,18 @@ import { Progress } from "@/components/ui/progress";
 interface ResultsSummaryProps {
   result: AllocationResult;
   sitesNeeded: number;
+  onExport: () => void;
 }
 
-export function ResultsSummary({ result, sitesNeeded }: ResultsSummaryProps) {
-  const [copied, setCopied] = useState(false);
-
-  const handleCopy = () => {
-    const summary = {
-      supernet: result.hierarchy.cidr,
-      totalSites: result.totalSitesSupported,
-      utilization: result.utilizationPercentage,
-      regions: result.summary.regionBreakdown
-    };
-    navigator.clipboard.writeText(JSON.stringify(summary, null, 2));
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
-  };
-
+export function ResultsSummary({ result, sitesNeeded, onExport }: ResultsSummaryProps) {
   const totalRatio = result.summary.regionBreakdown.reduce((acc, r) => acc + r.ratio, 0);
   
   // Separate critical warnings from informational unallocated messages
   const criticalWarnings = result.warnings?.filter(w => !w.toLowerCase().includes("unallocated")) || [];
   const unallocatedInfo = result.warnings?.filter(w => w.toLowerCase().includes("unallocated")) || [];
   const totalAllocationPercentage = result.summary.regionBreakdown.reduce((acc, r) => acc + r.percentage, 0);
+  const totalExcludedPercentage = result.summary.exclusions.reduce((acc, e) => acc + e.percentage, 0);
+  const unallocatedPercentage = 100 - totalAllocationPercentage - totalExcludedPercentage;
 
   return (
     <div className="space-y-6">
@@ -46,9 +34,9 @@ export function ResultsSummary({ result, sitesNeeded }: ResultsSummaryProps) {
                 Analysis Results
             </h2>
          </div>
-         <Button variant="outline" size="sm" onClick={handleCopy} className="gap-2 text-xs h-8">
-            {copied ? <Check className="w-3 h-3 text-emerald-500" /> : <Copy className="w-3 h-3" />}
-            {copied ? "Copied" : "Export JSON"}
+         <Button variant="outline" size="sm" onClick={onExport} className="gap-2 text-xs h-8">
+            <Download className="w-3 h-3" />
+            Export JSON
          </Button>
       </div>
 
@@ -78,8 +66,23 @@ export function ResultsSummary({ result, sitesNeeded }: ResultsSummaryProps) {
         />
       </div>
 
+      {/* Site Tier Capacity */}
+      {result.siteTiers && (
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          {result.siteTiers.map((tier) => (
+            <MetricCard
+                key={tier.name}
+                label={`${tier.name} Sites`}
+                value={tier.sitesCapacity.toLocaleString()}
+                subtext={`/${tier.sitePrefix} blocks, ${tier.sitesNeeded.toLocaleString()} needed`}
+                color={tier.sitesCapacity < tier.sitesNeeded ? "text-destructive" : undefined}
+            />
+          ))}
+        </div>
+      )}
+
       {/* Alerts Grid */}
-      {(criticalWarnings.length > 0 || unallocatedInfo.length > 0 || result.recommendations) && (
+      {(criticalWarnings.length > 0 || unallocatedInfo.length > 0 || result.summary.exclusions.length > 0 || result.brownfield || result.recommendations) && (
         <div className="grid grid-cols-1 gap-4">
           
           {/* Critical Errors (Red) */}
@@ -96,13 +99,22 @@ export function ResultsSummary({ result, sitesNeeded }: ResultsSummaryProps) {
           )}
 
           {/* Informational / Unallocated (Grey/Blue) - Non-threatening */}
-          {unallocatedInfo.length > 0 && (
+          {(unallocatedInfo.length > 0 || result.summary.exclusions.length > 0 || result.brownfield) && (
              <Alert className="bg-muted/50 border-border text-muted-foreground">
               <Info className="h-5 w-5 text-muted-foreground" />
               <AlertTitle className="font-semibold mb-2">Capacity Status</AlertTitle>
               <AlertDescription>
                  <ul className="list-disc list-inside space-y-1 text-sm opacity-90">
                   {unallocatedInfo.map((w, i) => <li key={i}>{w} (Reserved for future top-level growth)</li>)}
+                  {result.summary.exclusions.map((e) => (
+                    <li key={e.cidr}><span className="font-mono">{e.cidr}</span> excluded ({e.percentage.toFixed(1)}%) - not counted towards site capacity</li>
+                  ))}
+                  {result.brownfield && (
+                    <li>
+                      {result.brownfield.pinned} existing {result.brownfield.pinned === 1 ? "site" : "sites"} pinned
+                      {result.brownfield.rejected > 0 && `, ${result.brownfield.rejected} rejected (see Configuration Issues)`}
+                    </li>
+                  )}
                 </ul>
               </AlertDescription>
             </Alert>
@@ -152,15 +164,28 @@ export function ResultsSummary({ result, sitesNeeded }: ResultsSummaryProps) {
                     />
                 ))}
                 
+                {/* Excluded Ranges */}
+                {result.summary.exclusions.map((e) => (
+                    <div
+                        key={e.cidr}
+                        className="h-full bg-destructive/20 cursor-help border-r border-background/20"
+                        style={{
+                            width: `${e.percentage}%`,
+                            backgroundImage: "repeating-linear-gradient(-45deg, transparent, transparent 3px, rgba(0,0,0,0.08) 3px, rgba(0,0,0,0.08) 6px)"
+                        }}
+                        title={`Excluded ${e.cidr}: ${e.percentage.toFixed(1)}%`}
+                    />
+                ))}
+
                 {/* Unallocated / Reserved Space - Distinctive Styling */}
-                {totalAllocationPercentage < 100 && (
+                {unallocatedPercentage > 0 && (
                     <div 
                         className="h-full bg-muted/40 relative cursor-help"
                         style={{ 
-                            width: `${100 - totalAllocationPercentage}%`,
+                            width: `${unallocatedPercentage}%`,
                             backgroundImage: "repeating-linear-gradient(45deg, transparent, transparent 5px, rgba(0,0,0,0.05) 5px, rgba(0,0,0,0.05) 10px)"
                         }}
-                        title={`Reserved / Unallocated: ${(100 - totalAllocationPercentage).toFixed(1)}%`}
+                        title={`Reserved / Unallocated: ${unallocatedPercentage.toFixed(1)}%`}
                     >
                         <div className="absolute inset-0 flex items-center justify-center">
                             <span className="text-[10px] font-medium uppercase tracking-wider text-muted-foreground/60 select-none">
@@ -179,7 +204,7 @@ export function ResultsSummary({ result, sitesNeeded }: ResultsSummaryProps) {
           {/* Grid */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
              {result.summary.regionBreakdown.map((r, i) => {
-                 const projectedSites = Math.ceil(sitesNeeded * (r.ratio / totalRatio));
+                 const projectedSites = r.sitesNeeded ?? Math.ceil(sitesNeeded * (r.ratio / totalRatio));
                  const utilization = Math.min(100, (projectedSites / r.sitesCapacity) * 100);
                  const color = `hsl(${220 + (i * 40)}, 85%, 55%)`;
                  const isHighUtil = utilization > 90;
@@ -198,6 +223,14 @@ export function ResultsSummary({ result, sitesNeeded }: ResultsSummaryProps) {
                              </Badge>
                         </div>
 
+                        <div
+                            className="pl-2 mb-3 text-xs text-muted-foreground"
+                            title={`Share of the space given to regions, against the share the ${r.sitesNeeded !== undefined ? "site counts" : "weights"} ask for`}
+                        >
+                            {r.sitesNeeded !== undefined ? `${r.sitesNeeded.toLocaleString()} sites` : `Weight ${r.ratio}`}: <span className="text-foreground font-medium">{r.actualShare.toFixed(1)}%</span> of regions
+                            {Math.abs(r.actualShare - r.requestedShare) >= 0.05 && ` (requested ${r.requestedShare.toFixed(1)}%)`}
+                        </div>
+
                         <div className="pl-2 space-y-3">
                             <div className="space-y-1.5">
                                 <div className="flex justify-between text-[10px] uppercase text-muted-foreground font-semibold tracking-wide">
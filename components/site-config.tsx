@@ -0,0 +1,282 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Check, Copy, Download, Router } from "lucide-react";
+import { CIDRMath } from "@/lib/cidr-math";
+import type { AllocationResult } from "@/lib/hierarchical-allocator";
+import { Brownfield } from "@/lib/brownfield";
+import { SitePlan, type PlannedSite, type PlannedVlan } from "@/lib/site-plan";
+import { RouterConfig, ROUTER_VENDORS, type RouterVendor } from "@/lib/router-config";
+import { DhcpConfig, DEFAULT_DHCP_OPTIONS, type DhcpServer } from "@/lib/dhcp-config";
+import { downloadFile } from "@/lib/utils";
+
+interface SiteConfigPanelProps {
+  result: AllocationResult;
+  vlanSize: number;
+  vlansPerSite: number;
+  vlanPrefixes: number[];
+}
+
+interface SiteConfigToolProps {
+  site: PlannedSite;
+  vlans: PlannedVlan[];
+}
+
+function isIpAddress(text: string) {
+  try {
+    CIDRMath.ipToNumber(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Generated config with copy and download buttons
+function ConfigOutput({ content, filename, mimeType }: { content: string; filename: string; mimeType: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const copyConfig = async () => {
+    await navigator.clipboard.writeText(content);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" onClick={copyConfig} className="gap-2">
+          {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+          {copied ? "Copied" : "Copy"}
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => downloadFile(filename, content, mimeType)} className="gap-2">
+          <Download className="w-4 h-4" />
+          Download
+        </Button>
+      </div>
+      <pre className="max-h-96 overflow-auto rounded-lg border border-border/50 bg-muted/30 p-4 font-mono text-xs leading-relaxed">
+        {content}
+      </pre>
+    </div>
+  );
+}
+
+function RouterConfigTool({ site, vlans }: SiteConfigToolProps) {
+  const [vendor, setVendor] = useState<RouterVendor>("ios-xe");
+  const [parents, setParents] = useState<Record<RouterVendor, string>>(
+    () => Object.fromEntries(ROUTER_VENDORS.map((v) => [v.id, v.parentInterface])) as Record<RouterVendor, string>
+  );
+  const [relayText, setRelayText] = useState("");
+
+  const relayEntries = relayText.split(/[\s,]+/).filter(Boolean);
+  const relays = relayEntries.filter(isIpAddress);
+  const invalidRelays = relayEntries.filter((entry) => !isIpAddress(entry));
+  const config = RouterConfig.generate(vendor, { ...site, vlans }, { parentInterface: parents[vendor], dhcpRelay: relays });
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Ready-to-paste VLAN interfaces. Each gateway is the first host of its VLAN.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="router-parent">Parent interface</Label>
+          <Input
+            id="router-parent"
+            value={parents[vendor]}
+            placeholder={vendor === "junos" ? "irb" : "SVI"}
+            onChange={(e) => setParents({ ...parents, [vendor]: e.target.value })}
+            className="font-mono bg-background/50"
+          />
+          <p className="text-xs text-muted-foreground">
+            {parents[vendor].trim() ? "One tagged sub-interface per VLAN." : "VLAN interfaces; set a port for sub-interfaces."}
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="router-relay">DHCP relay servers (optional)</Label>
+          <Input
+            id="router-relay"
+            placeholder="10.255.0.10, 2001:db8::53"
+            value={relayText}
+            onChange={(e) => setRelayText(e.target.value)}
+            className="font-mono bg-background/50"
+          />
+          {invalidRelays.length > 0 && (
+            <p className="text-xs text-destructive">Ignoring invalid address: {invalidRelays.join(", ")}</p>
+          )}
+        </div>
+      </div>
+      <Tabs value={vendor} onValueChange={(value) => setVendor(value as RouterVendor)}>
+        <TabsList>
+          {ROUTER_VENDORS.map((v) => (
+            <TabsTrigger key={v.id} value={v.id}>{v.label}</TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+      <ConfigOutput content={config} filename={`${site.name}-${vendor}.txt`} mimeType="text/plain" />
+    </div>
+  );
+}
+
+function DhcpConfigTool({ site, vlans }: SiteConfigToolProps) {
+  const [server, setServer] = useState<DhcpServer>("kea");
+  const [options, setOptions] = useState(DEFAULT_DHCP_OPTIONS);
+
+  const dhcpSite = { ...site, vlans };
+  const config = DhcpConfig.generate(server, dhcpSite, options);
+  const skipped = vlans.length - DhcpConfig.scopes(dhcpSite, options).length;
+  const numberField = (key: keyof typeof options, label: string, min: number) => (
+    <div className="space-y-2">
+      <Label htmlFor={`dhcp-${key}`}>{label}</Label>
+      <Input
+        id={`dhcp-${key}`}
+        type="number"
+        min={min}
+        value={options[key]}
+        onChange={(e) => setOptions({ ...options, [key]: Math.max(min, Number(e.target.value) || min) })}
+        className="font-mono bg-background/50"
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        One DHCPv4 pool per VLAN inside its host range, with the router option set to the gateway. Reserved head
+        addresses include the gateway; keep head and tail addresses for static devices.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {numberField("reserveHead", "Reserved at start", 1)}
+        {numberField("reserveTail", "Reserved at end", 0)}
+        {numberField("leaseTime", "Lease time (seconds)", 60)}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <Tabs value={server} onValueChange={(value) => setServer(value as DhcpServer)}>
+          <TabsList>
+            <TabsTrigger value="kea">ISC Kea</TabsTrigger>
+            <TabsTrigger value="dnsmasq">dnsmasq</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        {skipped > 0 && (
+          <Badge variant="outline" className="text-xs bg-amber-500/5 text-amber-600 border-amber-500/20">
+            {skipped} VLAN{skipped === 1 ? "" : "s"} without a pool
+          </Badge>
+        )}
+      </div>
+      <ConfigOutput
+        content={config}
+        filename={server === "kea" ? `${site.name}-kea-dhcp4.json` : `${site.name}-dnsmasq.conf`}
+        mimeType={server === "kea" ? "application/json" : "text/plain"}
+      />
+    </div>
+  );
+}
+
+export function SiteConfigPanel({ result, vlanSize, vlansPerSite, vlanPrefixes }: SiteConfigPanelProps) {
+  const pools = useMemo(() => SitePlan.pools(result), [result]);
+  const [territoryId, setTerritoryId] = useState(pools[0]?.territory.id ?? "");
+  const pool = pools.find((p) => p.territory.id === territoryId) ?? pools[0];
+  const sitePrefix = pool ? SitePlan.sitePrefix(result, pool) : result.sitePrefixRecommendation;
+  const slotCount = pool ? Number(CIDRMath.subnetCount(pool.territory.prefix, sitePrefix)) : 0;
+  // Same default as the site blueprint: the first slot not taken by an existing site
+  const firstFree = pool
+    ? Number(Brownfield.freeSiteIndex(pool.territory, sitePrefix) ?? BigInt(0)) + 1
+    : 1;
+  const [slot, setSlot] = useState<number | null>(null);
+  const siteIndex = Math.min(slot ?? firstFree, Math.max(slotCount, 1));
+
+  const site = useMemo(
+    () => (pool ? SitePlan.findSite(result, pool.territory.id, siteIndex) : undefined),
+    [result, pool, siteIndex]
+  );
+  const vlans = useMemo(
+    () =>
+      site && site.status === "planned"
+        ? SitePlan.layoutVlans(
+            site.cidr,
+            SitePlan.poolVlanPrefixes(result, site, SitePlan.vlanPrefixes(vlansPerSite, vlanSize, vlanPrefixes)),
+            SitePlan.mapper(result)
+          ).vlans
+        : [],
+    [site, vlansPerSite, vlanSize, vlanPrefixes, result]
+  );
+
+  if (!pool) return null;
+
+  return (
+    <Card className="border-border/60 shadow-xl bg-card/40 backdrop-blur-xl pt-2">
+      <CardHeader className="bg-muted/20 m-4 p-2 rounded-xl">
+        <div className="flex items-center gap-2">
+          <Router className="w-5 h-5 text-primary" />
+          <CardTitle className="text-xl">Site Config</CardTitle>
+        </div>
+        <CardDescription>Router interfaces and DHCP scopes for one site, generated from its VLAN list.</CardDescription>
+      </CardHeader>
+      <CardContent className="px-6 pb-6 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="site-config-territory">Territory</Label>
+            <select
+              id="site-config-territory"
+              value={pool.territory.id}
+              onChange={(e) => {
+                setTerritoryId(e.target.value);
+                setSlot(null);
+              }}
+              className="flex h-9 w-full rounded-md border border-input bg-background/50 px-3 py-1 text-sm shadow-xs"
+            >
+              {pools.map((p) => (
+                <option key={p.territory.id} value={p.territory.id}>
+                  {p.territory.name} ({p.territory.cidr})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="site-config-slot">Site slot (1 to {slotCount.toLocaleString()})</Label>
+            <Input
+              id="site-config-slot"
+              type="number"
+              min={1}
+              max={slotCount}
+              value={siteIndex}
+              onChange={(e) => setSlot(Math.max(1, Number(e.target.value) || 1))}
+              className="font-mono bg-background/50"
+            />
+          </div>
+        </div>
+
+        {site && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="secondary" className="font-mono text-xs">{site.name}</Badge>
+            <Badge variant="outline" className="font-mono text-xs">{site.cidr}</Badge>
+            {site.ipv6Cidr && <Badge variant="outline" className="font-mono text-xs">{site.ipv6Cidr}</Badge>}
+          </div>
+        )}
+
+        {!site || site.status === "existing" ? (
+          <p className="text-sm text-muted-foreground">
+            {site ? `${site.name} is an existing site with its own numbering, so no VLANs are derived for it.` : "No site in this slot."}{" "}
+            Pick another slot.
+          </p>
+        ) : (
+          <Tabs defaultValue="router">
+            <TabsList>
+              <TabsTrigger value="router">Router</TabsTrigger>
+              <TabsTrigger value="dhcp">DHCP</TabsTrigger>
+            </TabsList>
+            <TabsContent value="router" className="pt-4">
+              <RouterConfigTool site={site} vlans={vlans} />
+            </TabsContent>
+            <TabsContent value="dhcp" className="pt-4">
+              <DhcpConfigTool site={site} vlans={vlans} />
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
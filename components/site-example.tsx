@@ -6,21 +6,16 @@ import { AlertTriangle, Laptop, MonitorSmartphone, Server } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { CIDRMath } from "@/lib/cidr-math";
 import type { AllocationResult } from "@/lib/hierarchical-allocator";
-
-interface SiteExampleVlan {
-  cidr: string;
-  network: string;
-  broadcast: string;
-  addressRange: string;
-  usableHosts: number;
-}
+import { Brownfield } from "@/lib/brownfield";
+import { SitePlan, type PlannedVlan } from "@/lib/site-plan";
 
 interface SiteExample {
   cidr: string;
   network: string;
   broadcast: string;
   addressRange: string;
-  vlans: SiteExampleVlan[];
+  vlans: PlannedVlan[];
+  ipv6Cidr?: string;
   warning?: string;
 }
 
@@ -41,63 +36,24 @@ function buildSiteExample(
   vlansPerSite: number,
   vlanPrefixes?: number[]
 ): SiteExample | null {
-  const regions = allocation.hierarchy.children;
-  if (!regions || regions.length === 0) return null;
-
-  const region =
-    regions.find((r) => r.name !== "Unallocated" && r.children && r.children.length > 0) ?? regions[0];
-  const subRegion = region.children && region.children[0];
-  if (!subRegion) return null;
+  const [pool] = SitePlan.pools(allocation);
+  if (!pool) return null;
+  const subRegion = pool.territory;
 
-  const { ip: subRegionIp, prefix: subRegionPrefix } = CIDRMath.parseCIDR(subRegion.cidr);
+  const { ip: subRegionIp, prefix: subRegionPrefix, version } = CIDRMath.parseCIDR(subRegion.cidr);
   const sitePrefix = allocation.sitePrefixRecommendation;
-  const siteNetwork = CIDRMath.getNthSubnet(subRegionIp, subRegionPrefix, sitePrefix, BigInt(0));
+  const siteIndex = Brownfield.freeSiteIndex(subRegion, sitePrefix) ?? BigInt(0);
+  const siteNetwork = CIDRMath.getNthSubnet(subRegionIp, subRegionPrefix, sitePrefix, siteIndex);
+  const siteCidr = `${siteNetwork}/${sitePrefix}`;
+  const mapper = SitePlan.mapper(allocation);
   const siteBroadcast = CIDRMath.getBroadcastAddress(siteNetwork, sitePrefix);
   const { first: siteFirst, last: siteLast } = CIDRMath.getHostRange(siteNetwork, sitePrefix);
 
-  const vlans: SiteExampleVlan[] = [];
-  const siteBaseNum = CIDRMath.ipToNumber(siteNetwork);
-  const siteBroadcastNum = CIDRMath.ipToNumber(siteBroadcast);
-  const prefixes =
-    vlanPrefixes && vlanPrefixes.length > 0
-      ? vlanPrefixes
-      : Array.from({ length: vlansPerSite }, () => defaultVlanPrefix);
-
-  let currentIpNum = siteBaseNum;
-  let allocatedVlans = 0;
-
-  for (let i = 0; i < vlansPerSite; i++) {
-    const prefix = prefixes[i] ?? defaultVlanPrefix;
-    const vlanSizeBig = CIDRMath.subnetAddressCount(prefix);
+  const prefixes = SitePlan.vlanPrefixes(vlansPerSite, defaultVlanPrefix, vlanPrefixes);
+  const { vlans, usedAddresses } = SitePlan.layoutVlans(siteCidr, prefixes, mapper);
+  const allocatedVlans = vlans.length;
 
-    let vlanNetworkNum = currentIpNum;
-    const remainder = vlanNetworkNum % vlanSizeBig;
-    if (remainder !== BigInt(0)) {
-      vlanNetworkNum = vlanNetworkNum - remainder + vlanSizeBig;
-    }
-
-    if (vlanNetworkNum + vlanSizeBig - BigInt(1) > siteBroadcastNum) {
-      break;
-    }
-
-    const vlanNetwork = CIDRMath.numberToIp(vlanNetworkNum);
-    const vlanBroadcast = CIDRMath.getBroadcastAddress(vlanNetwork, prefix);
-    const { first, last } = CIDRMath.getHostRange(vlanNetwork, prefix);
-
-    vlans.push({
-      cidr: `${vlanNetwork}/${prefix}`,
-      network: vlanNetwork,
-      broadcast: vlanBroadcast,
-      addressRange: `${first} - ${last}`,
-      usableHosts: Number(CIDRMath.usableHosts(prefix)),
-    });
-
-    allocatedVlans++;
-    currentIpNum = vlanNetworkNum + vlanSizeBig;
-  }
-
-  const totalSiteAddresses = CIDRMath.subnetAddressCount(sitePrefix);
-  const usedAddresses = currentIpNum - siteBaseNum;
+  const totalSiteAddresses = CIDRMath.subnetAddressCount(sitePrefix, version);
   const remainingAddresses = totalSiteAddresses - usedAddresses;
 
   let warning: string | undefined;
@@ -105,7 +61,7 @@ function buildSiteExample(
     warning = `Capacity Limit: Only ${allocatedVlans} of ${vlansPerSite} VLANs fit in the /${sitePrefix} site block.`;
   } else {
     const minVlanSize = prefixes.reduce<bigint>((min, p) => {
-      const size = CIDRMath.subnetAddressCount(p);
+      const size = CIDRMath.subnetAddressCount(p, version);
       return min === BigInt(0) || size < min ? size : min;
     }, BigInt(0));
 
@@ -115,11 +71,12 @@ function buildSiteExample(
   }
 
   return {
-    cidr: `${siteNetwork}/${sitePrefix}`,
+    cidr: siteCidr,
     network: siteNetwork,
     broadcast: siteBroadcast,
     addressRange: `${siteFirst} - ${siteLast}`,
     vlans,
+    ipv6Cidr: mapper?.mapPrefix(siteCidr),
     warning,
   };
 }
@@ -130,6 +87,8 @@ export function SiteExample(props: SiteExampleProps) {
 
   if (!siteExample) return null;
 
+  const version = CIDRMath.ipVersion(allocation.hierarchy.network);
+  const maxVlanPrefix = version === 6 ? 64 : 30;
   const theme = regionThemes[0];
   
   // Logic for dynamic padding
@@ -173,12 +132,12 @@ export function SiteExample(props: SiteExampleProps) {
                         value={[prefix]}
                         onValueChange={([val]) => updateVlanPrefix(index, val)}
                         min={allocation.sitePrefixRecommendation}
-                        max={30}
+                        max={maxVlanPrefix}
                         step={1}
                         className="w-full"
                       />
                       <div className="text-[10px] text-right text-muted-foreground font-mono">
-                        {CIDRMath.formatSize(CIDRMath.usableHosts(prefix))} usable hosts
+                        {CIDRMath.formatSize(CIDRMath.usableHosts(prefix, version))} usable hosts
                       </div>
                     </div>
                   ))}
@@ -202,9 +161,16 @@ export function SiteExample(props: SiteExampleProps) {
           <CardTitle className="text-sm font-medium uppercase tracking-wider text-muted-foreground">
             Site Blueprint
           </CardTitle>
-          <Badge variant="secondary" className="font-mono text-xs border-primary/20 bg-primary/5 text-primary">
-            {siteExample.cidr}
-          </Badge>
+          <div className="flex flex-wrap gap-2 justify-end">
+            <Badge variant="secondary" className="font-mono text-xs border-primary/20 bg-primary/5 text-primary">
+              {siteExample.cidr}
+            </Badge>
+            {siteExample.ipv6Cidr && (
+              <Badge variant="secondary" className="font-mono text-xs border-purple-500/20 bg-purple-500/5 text-purple-600 dark:text-purple-400">
+                {siteExample.ipv6Cidr}
+              </Badge>
+            )}
+          </div>
         </CardHeader>
         <CardContent className="pt-6">
             <div className="space-y-6">
@@ -223,10 +189,13 @@ export function SiteExample(props: SiteExampleProps) {
                                     VLAN {index + 1}
                                 </Badge>
                                 <span className="text-[10px] font-mono text-muted-foreground font-medium bg-background/80 backdrop-blur-sm px-1.5 py-0.5 rounded">
-                                    {vlan.usableHosts} hosts
+                                    {CIDRMath.formatSize(vlan.usableHosts)} hosts
                                 </span>
                             </div>
                             <div className="font-mono text-base font-bold tracking-tight relative z-10">{vlan.cidr}</div>
+                            {vlan.ipv6Cidr && (
+                                <div className="font-mono text-xs font-semibold tracking-tight text-purple-600 dark:text-purple-400 relative z-10 truncate">{vlan.ipv6Cidr}</div>
+                            )}
                             <div className="text-[10px] text-muted-foreground font-mono mt-1.5 truncate relative z-10 opacity-80">
                                 {vlan.addressRange}
                             </div>
@@ -234,7 +203,7 @@ export function SiteExample(props: SiteExampleProps) {
                     ))}
                 </div>
                 <div className="p-4 rounded-lg bg-muted/30 border border-dashed text-xs text-center text-muted-foreground">
-                    Remaining space in site block: {allocation.sitePrefixRecommendation < 30 ? "Available for future expansion" : "Fully Allocated"}
+                    Remaining space in site block: {allocation.sitePrefixRecommendation < maxVlanPrefix ? "Available for future expansion" : "Fully Allocated"}
                 </div>
             </div>
         </CardContent>
@@ -0,0 +1,237 @@
+// @/lib/address-map.ts
+
+import { CIDRMath } from "./cidr-math";
+import type { AllocationResult, HierarchyLevel } from "./hierarchical-allocator";
+import { SitePlan, type PlannedSite } from "./site-plan";
+
+export type MapSegmentKind =
+  | "region"
+  | "territory"
+  | "unallocated"
+  | "excluded"
+  | "site"
+  | "existing"
+  | "slots"
+  | "vlan";
+
+// What the map is zoomed into. Tier focus is a block between a region and
+// the blocks that hold sites. Territory focus covers a run of site slots
+// (0-based); a run of one slot is a single site, drawn with its VLANs.
+export type MapFocus =
+  | { kind: "supernet" }
+  | { kind: "region"; region: HierarchyLevel }
+  | { kind: "tier"; region: HierarchyLevel; tier: HierarchyLevel }
+  | { kind: "territory"; region: HierarchyLevel; territory: HierarchyLevel; first: bigint; count: bigint };
+
+export interface MapSegment {
+  id: string;
+  kind: MapSegmentKind;
+  label: string;
+  cidr: string; // First block of the segment; ranges of slots show the first slot
+  range: string;
+  addresses: bigint;
+  offset: number; // Position within the focused block, 0..1
+  width: number; // Share of the focused block, 0..1
+  ipv6Cidr?: string;
+  colorIndex: number;
+  detail?: string;
+  drill?: MapFocus;
+}
+
+// Slot ranges are grouped so a territory never draws more cells than this
+export const MAX_SLOT_CELLS = 256;
+
+export class AddressMap {
+  static focusCidr(result: AllocationResult, focus: MapFocus): string {
+    switch (focus.kind) {
+      case "supernet":
+        return result.hierarchy.cidr;
+      case "region":
+        return focus.region.cidr;
+      case "tier":
+        return focus.tier.cidr;
+      case "territory":
+        return this.slotRange(result, focus.territory, focus.first, focus.count).cidr;
+    }
+  }
+
+  // The site in a single-slot focus; undefined for slots inside a larger existing site
+  static focusSite(result: AllocationResult, focus: MapFocus): PlannedSite | undefined {
+    if (focus.kind !== "territory" || focus.count !== BigInt(1)) return undefined;
+    return SitePlan.findSite(result, focus.territory.id, Number(focus.first) + 1);
+  }
+
+  static segments(
+    result: AllocationResult,
+    focus: MapFocus,
+    vlanPrefixes: number[]
+  ): MapSegment[] {
+    switch (focus.kind) {
+      case "supernet":
+        return this.levelSegments(result.hierarchy, "region", (region) => this.drillInto(result, region, region));
+      case "region":
+        return this.levelSegments(focus.region, "territory", (block) => this.drillInto(result, focus.region, block));
+      case "tier":
+        return this.levelSegments(focus.tier, "territory", (block) => this.drillInto(result, focus.region, block));
+      case "territory": {
+        if (focus.count > BigInt(1)) return this.slotSegments(result, focus);
+        const site = this.focusSite(result, focus);
+        return site ? this.vlanSegments(result, site, SitePlan.poolVlanPrefixes(result, site, vlanPrefixes)) : [];
+      }
+    }
+  }
+
+  // Blocks with tiers below them zoom into those tiers, blocks that hold
+  // sites into their slots
+  private static drillInto(result: AllocationResult, region: HierarchyLevel, block: HierarchyLevel): MapFocus {
+    if (block.children?.some((child) => !child.metadata?.existing)) {
+      return block === region ? { kind: "region", region } : { kind: "tier", region, tier: block };
+    }
+    return { kind: "territory", region, territory: block, first: BigInt(0), count: this.slotCount(result, block) };
+  }
+
+  private static bounds(cidr: string) {
+    const { ip, prefix, version } = CIDRMath.parseCIDR(cidr);
+    return {
+      start: CIDRMath.ipToNumber(CIDRMath.getNetworkAddress(ip, prefix)),
+      size: CIDRMath.subnetAddressCount(prefix, version),
+      version,
+    };
+  }
+
+  // Fraction of a bigint ratio, precise enough for drawing at any prefix length
+  private static fraction(part: bigint, whole: bigint): number {
+    const scale = BigInt(1_000_000);
+    return Number((part * scale) / whole) / 1_000_000;
+  }
+
+  // Regions of the supernet or territories of a region, alongside the
+  // unallocated and excluded blocks that share the same level
+  private static levelSegments(
+    parent: HierarchyLevel,
+    kind: "region" | "territory",
+    drill: (child: HierarchyLevel) => MapFocus
+  ): MapSegment[] {
+    const outer = this.bounds(parent.cidr);
+    let colorIndex = 0;
+
+    return (parent.children ?? [])
+      .filter((child) => !child.metadata?.existing)
+      .map((child): MapSegment => {
+        const inner = this.bounds(child.cidr);
+        const reserved = child.metadata?.excluded ? "excluded" : child.metadata?.unallocated ? "unallocated" : undefined;
+
+        return {
+          id: child.id,
+          kind: reserved ?? kind,
+          label: child.name,
+          cidr: child.cidr,
+          range: child.addressRange,
+          addresses: child.totalAddresses,
+          offset: this.fraction(inner.start - outer.start, outer.size),
+          width: this.fraction(inner.size, outer.size),
+          ipv6Cidr: child.ipv6?.cidr,
+          colorIndex: reserved ? 0 : colorIndex++,
+          detail:
+            child.metadata?.sitesCapacity !== undefined
+              ? `${child.metadata.sitesCapacity.toLocaleString()} sites`
+              : undefined,
+          drill: reserved ? undefined : drill(child),
+        };
+      });
+  }
+
+  static slotCount(result: AllocationResult, territory: HierarchyLevel): bigint {
+    return CIDRMath.subnetCount(territory.prefix, this.sitePrefix(result, territory));
+  }
+
+  // Site tier pools carry their own site block
+  private static sitePrefix(result: AllocationResult, territory: HierarchyLevel): number {
+    return territory.metadata?.sitePrefix ?? result.sitePrefixRecommendation;
+  }
+
+  // Covering CIDR of a run of site slots (runs are always aligned powers of two)
+  private static slotRange(result: AllocationResult, territory: HierarchyLevel, first: bigint, count: bigint) {
+    const { start, version } = this.bounds(territory.cidr);
+    const sitePrefix = this.sitePrefix(result, territory);
+    const siteSize = CIDRMath.subnetAddressCount(sitePrefix, version);
+    const rangeStart = start + first * siteSize;
+    const prefix = sitePrefix - (count.toString(2).length - 1);
+    return {
+      cidr: `${CIDRMath.numberToIp(rangeStart, version)}/${prefix}`,
+      start: rangeStart,
+      end: rangeStart + count * siteSize - BigInt(1),
+      version,
+    };
+  }
+
+  // Site slots of a territory (or part of one), grouped into at most
+  // MAX_SLOT_CELLS cells. Clicking a cell zooms in, down to a single site.
+  private static slotSegments(
+    result: AllocationResult,
+    focus: Extract<MapFocus, { kind: "territory" }>
+  ): MapSegment[] {
+    const { territory, region } = focus;
+    const cells = focus.count < BigInt(MAX_SLOT_CELLS) ? focus.count : BigInt(MAX_SLOT_CELLS);
+    const perCell = focus.count / cells;
+    const pinned = (territory.children ?? []).filter((c) => c.metadata?.existing);
+    const mapper = SitePlan.mapper(result);
+    const segments: MapSegment[] = [];
+
+    for (let i = BigInt(0); i < cells; i++) {
+      const first = focus.first + i * perCell;
+      const range = this.slotRange(result, territory, first, perCell);
+      const existing = pinned.filter((site) => {
+        const siteStart = CIDRMath.ipToNumber(site.network);
+        return siteStart <= range.end && siteStart + site.totalAddresses - BigInt(1) >= range.start;
+      });
+      const single = perCell === BigInt(1);
+      const slotLabel = single ? `Slot ${first + BigInt(1)}` : `Slots ${first + BigInt(1)}-${first + perCell}`;
+
+      segments.push({
+        id: `${territory.id}-slot-${first}`,
+        kind: existing.length > 0 ? "existing" : single ? "site" : "slots",
+        label: single && existing.length === 1 ? existing[0].name : slotLabel,
+        cidr: range.cidr,
+        range: `${CIDRMath.numberToIp(range.start, range.version)} - ${CIDRMath.numberToIp(range.end, range.version)}`,
+        addresses: range.end - range.start + BigInt(1),
+        offset: Number(i) / Number(cells),
+        width: 1 / Number(cells),
+        ipv6Cidr: mapper?.mapPrefix(range.cidr),
+        colorIndex: 0,
+        detail:
+          existing.length > 0
+            ? `Existing: ${existing.map((s) => s.name).join(", ")}`
+            : single
+              ? undefined
+              : `${perCell.toLocaleString()} site slots`,
+        drill: { kind: "territory", region, territory, first, count: perCell },
+      });
+    }
+
+    return segments;
+  }
+
+  // VLANs of a planned site in template order; existing sites have no derived VLANs
+  private static vlanSegments(result: AllocationResult, site: PlannedSite, vlanPrefixes: number[]): MapSegment[] {
+    if (site.status === "existing") return [];
+    const outer = this.bounds(site.cidr);
+
+    return SitePlan.layoutVlans(site.cidr, vlanPrefixes, SitePlan.mapper(result)).vlans.map((vlan, i) => {
+      const inner = this.bounds(vlan.cidr);
+      return {
+        id: `${site.cidr}-vlan-${vlan.index}`,
+        kind: "vlan",
+        label: `VLAN ${vlan.index} (ID ${vlan.vlanId})`,
+        cidr: vlan.cidr,
+        range: vlan.addressRange,
+        addresses: inner.size,
+        offset: this.fraction(inner.start - outer.start, outer.size),
+        width: this.fraction(inner.size, outer.size),
+        ipv6Cidr: vlan.ipv6Cidr,
+        colorIndex: i,
+        detail: `Gateway ${vlan.gateway}, ${CIDRMath.formatSize(vlan.usableHosts)} usable hosts`,
+      };
+    });
+  }
+}
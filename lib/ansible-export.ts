@@ -0,0 +1,156 @@
+// @/lib/ansible-export.ts
+
+import type { AllocationResult } from "./hierarchical-allocator";
+import { SitePlan, type SiteWalkOptions } from "./site-plan";
+import type { ExportFile } from "./utils";
+
+type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+export class AnsibleExport {
+  // Ansible group and host names: lowercase, underscores only in groups
+  static groupName(kind: "region" | "territory", key: string): string {
+    return `${kind}_${key.toLowerCase().replace(/[^a-z0-9]+/g, "_")}`;
+  }
+
+  static hostName(siteName: string): string {
+    return siteName.toLowerCase().replace(/[^a-z0-9-]+/g, "-");
+  }
+
+  // inventory.yml: all -> region groups -> territory groups -> site hosts
+  static inventory(result: AllocationResult, options: SiteWalkOptions = {}): string {
+    const regions: Record<string, YamlValue> = {};
+    const territoryHosts = new Map<string, Record<string, YamlValue>>();
+
+    for (const pool of SitePlan.pools(result)) {
+      const regionGroup = this.groupName("region", SitePlan.regionKey(pool.region));
+      const territoryGroup = this.groupName("territory", SitePlan.territoryKey(pool));
+      const hosts: Record<string, YamlValue> = {};
+      territoryHosts.set(pool.territory.id, hosts);
+
+      const region = (regions[regionGroup] ??= {
+        vars: {
+          region_name: pool.region.name,
+          region_code: SitePlan.regionKey(pool.region),
+          region_cidr: pool.region.cidr,
+          ...(pool.region.ipv6 ? { region_ipv6_cidr: pool.region.ipv6.cidr } : {}),
+        },
+        children: {},
+      }) as { children: Record<string, YamlValue> };
+
+      region.children[territoryGroup] = {
+        vars: {
+          territory_name: pool.territory.name,
+          territory_cidr: pool.territory.cidr,
+          ...(pool.territory.ipv6 ? { territory_ipv6_cidr: pool.territory.ipv6.cidr } : {}),
+          // Site tier pools override the plan-wide site block
+          ...(pool.territory.metadata?.siteTier
+            ? { site_tier: pool.territory.metadata.siteTier, ipam_site_prefix: SitePlan.sitePrefix(result, pool) }
+            : {}),
+        },
+        hosts,
+      };
+    }
+
+    for (const site of SitePlan.sites(result, options)) {
+      territoryHosts.get(site.territory.id)![this.hostName(site.name)] = null;
+    }
+
+    const inventory: YamlValue = {
+      all: {
+        vars: {
+          ipam_supernet: result.hierarchy.cidr,
+          ...(result.hierarchy.ipv6 ? { ipam_supernet_ipv6: result.hierarchy.ipv6.cidr } : {}),
+          ipam_site_prefix: result.sitePrefixRecommendation,
+        },
+        children: regions,
+      },
+    };
+
+    return `# Generated by IPAM Architect for ${result.hierarchy.cidr}\n${this.toYAML(inventory)}`;
+  }
+
+  // host_vars/<site>.yml for every site; existing sites get no derived VLANs
+  static *hostVars(
+    result: AllocationResult,
+    vlanPrefixes: number[],
+    options: SiteWalkOptions = {}
+  ): Generator<ExportFile> {
+    const mapper = SitePlan.mapper(result);
+
+    for (const site of SitePlan.sites(result, options)) {
+      const vlans =
+        site.status === "existing"
+          ? []
+          : SitePlan.layoutVlans(site.cidr, SitePlan.poolVlanPrefixes(result, site, vlanPrefixes), mapper).vlans;
+
+      const vars: YamlValue = {
+        site_name: site.name,
+        site_status: site.status,
+        site_region: site.region.name,
+        site_territory: site.territory.name,
+        site_cidr: site.cidr,
+        ...(site.tier ? { site_tier: site.tier } : {}),
+        ...(site.ipv6Cidr ? { site_ipv6_cidr: site.ipv6Cidr } : {}),
+        vlans: vlans.map((vlan) => ({
+          id: vlan.vlanId,
+          name: `VLAN${vlan.index}`,
+          cidr: vlan.cidr,
+          gateway: vlan.gateway,
+          ...(vlan.ipv6Cidr ? { ipv6_cidr: vlan.ipv6Cidr } : {}),
+        })),
+      };
+
+      yield {
+        name: `host_vars/${this.hostName(site.name)}.yml`,
+        content: `---\n${this.toYAML(vars)}`,
+        mimeType: "text/yaml",
+      };
+    }
+  }
+
+  static files(
+    result: AllocationResult,
+    vlanPrefixes: number[],
+    options: SiteWalkOptions = {}
+  ): ExportFile[] {
+    return [
+      { name: "inventory.yml", content: this.inventory(result, options), mimeType: "text/yaml" },
+      ...this.hostVars(result, vlanPrefixes, options),
+    ];
+  }
+
+  // Block-style YAML for plain data; strings are always double-quoted
+  private static toYAML(value: YamlValue, indent = 0): string {
+    const pad = "  ".repeat(indent);
+    const scalar = (v: YamlValue) => (typeof v === "string" ? JSON.stringify(v) : String(v));
+
+    if (Array.isArray(value)) {
+      if (value.length === 0) return `${pad}[]\n`;
+      return value
+        .map((item) => {
+          if (item !== null && typeof item === "object") {
+            const body = this.toYAML(item, indent + 1);
+            return `${pad}- ${body.slice(pad.length + 2)}`;
+          }
+          return `${pad}- ${scalar(item)}\n`;
+        })
+        .join("");
+    }
+
+    if (value !== null && typeof value === "object") {
+      return Object.entries(value)
+        .map(([key, item]) => {
+          if (item !== null && typeof item === "object") {
+            const empty = Array.isArray(item) ? item.length === 0 : Object.keys(item).length === 0;
+            return empty
+              ? `${pad}${key}: ${Array.isArray(item) ? "[]" : "{}"}\n`
+              : `${pad}${key}:\n${this.toYAML(item, indent + 1)}`;
+          }
+          return `${pad}${key}:${item === null ? "" : ` ${scalar(item)}`}\n`;
+        })
+        .join("");
+    }
+
+    return `${pad}${scalar(value)}\n`;
+  }
+}
@@ -0,0 +1,37 @@
+// @/lib/api-response.ts
+
+import type { ValidationIssue } from "./config-validator";
+import { PlanExport } from "./plan-document";
+
+export type ApiErrorCode =
+  | "invalid_json"
+  | "invalid_request"
+  | "allocation_failed"
+  | "not_found";
+
+// JSON responses for the route handlers; bigints are sent as decimal strings
+export class ApiResponse {
+  static json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body, PlanExport.replacer, 2), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  static error(
+    status: number,
+    code: ApiErrorCode,
+    message: string,
+    issues?: ValidationIssue[]
+  ): Response {
+    return this.json({ error: { code, message, ...(issues ? { issues } : {}) } }, status);
+  }
+
+  static async readJSON(request: Request): Promise<unknown> {
+    try {
+      return await request.json();
+    } catch {
+      return undefined;
+    }
+  }
+}
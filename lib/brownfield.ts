@@ -0,0 +1,150 @@
+// @/lib/brownfield.ts
+
+import { CIDRMath } from "./cidr-math";
+import type { ExistingSite, HierarchyLevel } from "./hierarchical-allocator";
+
+export class Brownfield {
+  // Accepts either a JSON array (or { sites: [...] }) or CSV with an optional
+  // header row; headerless CSV is read as name,region,cidr[,territory]
+  static parse(text: string): ExistingSite[] {
+    const trimmed = text.trim();
+    if (!trimmed) return [];
+    return trimmed.startsWith("[") || trimmed.startsWith("{")
+      ? this.parseJSON(trimmed)
+      : this.parseCSV(trimmed);
+  }
+
+  static parseJSON(text: string): ExistingSite[] {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error("Existing sites JSON could not be parsed");
+    }
+
+    const rows =
+      Array.isArray(data)
+        ? data
+        : (data as { sites?: unknown }).sites;
+    if (!Array.isArray(rows)) {
+      throw new Error('Existing sites JSON must be an array or { "sites": [...] }');
+    }
+
+    return rows.map((row, i) => {
+      const { name, region, cidr, territory } = (row ?? {}) as Record<
+        string,
+        unknown
+      >;
+      if (typeof cidr !== "string" || typeof region !== "string") {
+        throw new Error(`Existing site #${i + 1} needs "region" and "cidr"`);
+      }
+      return {
+        name: typeof name === "string" && name ? name : `Site ${i + 1}`,
+        region,
+        cidr: cidr.trim(),
+        territory: typeof territory === "string" && territory ? territory : undefined,
+      };
+    });
+  }
+
+  static parseCSV(text: string): ExistingSite[] {
+    const lines = text
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith("#"));
+    if (lines.length === 0) return [];
+
+    const header = this.splitCSVLine(lines[0]).map((h) => h.toLowerCase());
+    const hasHeader = header.includes("cidr");
+    const column = (key: string, fallback: number) =>
+      hasHeader ? header.indexOf(key) : fallback;
+    const nameCol = column("name", 0);
+    const regionCol = column("region", 1);
+    const cidrCol = column("cidr", 2);
+    const territoryCol = column("territory", 3);
+
+    if (hasHeader && regionCol === -1) {
+      throw new Error('Existing sites CSV header must include "region" and "cidr"');
+    }
+
+    return lines.slice(hasHeader ? 1 : 0).map((line, i) => {
+      const fields = this.splitCSVLine(line);
+      const cidr = fields[cidrCol];
+      const region = fields[regionCol];
+      if (!cidr || !region) {
+        throw new Error(`Existing sites CSV row ${i + 1} needs a region and a CIDR`);
+      }
+      return {
+        name: (nameCol >= 0 && fields[nameCol]) || `Site ${i + 1}`,
+        region,
+        cidr,
+        territory: (territoryCol >= 0 && fields[territoryCol]) || undefined,
+      };
+    });
+  }
+
+  private static splitCSVLine(line: string): string[] {
+    const fields: string[] = [];
+    let current = "";
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quoted) {
+        if (char === '"' && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          current += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ",") {
+        fields.push(current.trim());
+        current = "";
+      } else {
+        current += char;
+      }
+    }
+
+    fields.push(current.trim());
+    return fields;
+  }
+
+  // Index of the first (or last) site slot in a territory that no pinned
+  // existing site overlaps, or null when the territory is full
+  static freeSiteIndex(
+    territory: HierarchyLevel,
+    sitePrefix: number,
+    fromEnd = false
+  ): bigint | null {
+    const { ip, prefix, version } = CIDRMath.parseCIDR(territory.cidr);
+    const base = CIDRMath.ipToNumber(ip);
+    const siteSize = CIDRMath.subnetAddressCount(sitePrefix, version);
+    const slots = CIDRMath.subnetCount(prefix, sitePrefix);
+
+    const occupied = (territory.children ?? []).map((site) => {
+      const start = CIDRMath.ipToNumber(site.network);
+      return { start, end: start + site.totalAddresses - BigInt(1) };
+    });
+
+    const isFree = (index: bigint) => {
+      const start = base + index * siteSize;
+      const end = start + siteSize - BigInt(1);
+      return !occupied.some((o) => o.start <= end && o.end >= start);
+    };
+
+    if (fromEnd) {
+      for (let i = slots - BigInt(1); i >= BigInt(0); i--) {
+        if (isFree(i)) return i;
+      }
+    } else {
+      for (let i = BigInt(0); i < slots; i++) {
+        if (isFree(i)) return i;
+      }
+    }
+    return null;
+  }
+}
@@ -1,7 +1,28 @@
 // @/lib/cidr-math.ts
 
+import { PrefixSet } from "./prefix-set";
+
+export type IPVersion = 4 | 6;
+
+const IPV4_MAX = BigInt(0xffffffff);
+const IPV6_MAX = (BigInt(1) << BigInt(128)) - BigInt(1);
+
 export class CIDRMath {
+  static ipVersion(ip: string): IPVersion {
+    return ip.includes(":") ? 6 : 4;
+  }
+
+  static addressBits(version: IPVersion = 4): number {
+    return version === 6 ? 128 : 32;
+  }
+
   static ipToNumber(ip: string): bigint {
+    return this.ipVersion(ip) === 6
+      ? this.ipv6ToNumber(ip)
+      : this.ipv4ToNumber(ip);
+  }
+
+  private static ipv4ToNumber(ip: string): bigint {
     const parts = ip.split(".").map(Number);
     if (parts.length !== 4 || parts.some((p) => isNaN(p) || p < 0 || p > 255)) {
       throw new Error(`Invalid IP address: ${ip}`);
@@ -14,8 +35,51 @@ export class CIDRMath {
     );
   }
 
-  static numberToIp(num: bigint): string {
-    const n = Number(num & BigInt(0xffffffff));
+  private static ipv6ToNumber(ip: string): bigint {
+    let address = ip.toLowerCase();
+
+    // Rewrite an embedded dotted-quad tail (e.g. ::ffff:192.0.2.1) as two hextets
+    if (address.includes(".")) {
+      const tailStart = address.lastIndexOf(":") + 1;
+      let v4: bigint;
+      try {
+        v4 = this.ipv4ToNumber(address.slice(tailStart));
+      } catch {
+        throw new Error(`Invalid IP address: ${ip}`);
+      }
+      address =
+        address.slice(0, tailStart) +
+        `${(v4 >> BigInt(16)).toString(16)}:${(v4 & BigInt(0xffff)).toString(16)}`;
+    }
+
+    const halves = address.split("::");
+    if (halves.length > 2) throw new Error(`Invalid IP address: ${ip}`);
+
+    const head = halves[0] ? halves[0].split(":") : [];
+    const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+    const groups =
+      halves.length === 2
+        ? [...head, ...Array(8 - head.length - tail.length).fill("0"), ...tail]
+        : head;
+
+    if (
+      groups.length !== 8 ||
+      (halves.length === 2 && head.length + tail.length > 7) ||
+      groups.some((g) => !/^[0-9a-f]{1,4}$/.test(g))
+    ) {
+      throw new Error(`Invalid IP address: ${ip}`);
+    }
+
+    return groups.reduce(
+      (acc, group) => (acc << BigInt(16)) | BigInt(parseInt(group, 16)),
+      BigInt(0)
+    );
+  }
+
+  static numberToIp(num: bigint, version: IPVersion = 4): string {
+    if (version === 6) return this.numberToIpv6(num);
+
+    const n = Number(num & IPV4_MAX);
     return [
       (n >>> 24) & 0xff,
       (n >>> 16) & 0xff,
@@ -24,62 +88,110 @@ export class CIDRMath {
     ].join(".");
   }
 
-  static prefixToMask(prefix: number): bigint {
-    if (!Number.isInteger(prefix) || prefix < 0 || prefix > 32) {
+  // RFC 5952 canonical form: lowercase, no leading zeros, longest zero run compressed
+  private static numberToIpv6(num: bigint): string {
+    const value = num & IPV6_MAX;
+    const groups = Array.from({ length: 8 }, (_, i) =>
+      Number((value >> BigInt(112 - i * 16)) & BigInt(0xffff))
+    );
+
+    let bestStart = -1;
+    let bestLength = 0;
+    for (let i = 0; i < 8; ) {
+      if (groups[i] !== 0) {
+        i++;
+        continue;
+      }
+      let j = i;
+      while (j < 8 && groups[j] === 0) j++;
+      if (j - i > bestLength) {
+        bestStart = i;
+        bestLength = j - i;
+      }
+      i = j;
+    }
+
+    const hex = groups.map((g) => g.toString(16));
+    if (bestLength < 2) return hex.join(":");
+
+    const head = hex.slice(0, bestStart).join(":");
+    const tail = hex.slice(bestStart + bestLength).join(":");
+    return `${head}::${tail}`;
+  }
+
+  static prefixToMask(prefix: number, version: IPVersion = 4): bigint {
+    const bits = this.addressBits(version);
+    if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits) {
       throw new Error(`Invalid prefix length: ${prefix}`);
     }
-    return (BigInt(0xffffffff) << BigInt(32 - prefix)) & BigInt(0xffffffff);
+    const max = version === 6 ? IPV6_MAX : IPV4_MAX;
+    return (max << BigInt(bits - prefix)) & max;
   }
 
-  static subnetAddressCount(prefix: number): bigint {
-    if (prefix < 0 || prefix > 32) {
+  static subnetAddressCount(prefix: number, version: IPVersion = 4): bigint {
+    const bits = this.addressBits(version);
+    if (prefix < 0 || prefix > bits) {
       throw new Error(`Invalid prefix: ${prefix}`);
     }
-    return BigInt(1) << BigInt(32 - prefix);
+    return BigInt(1) << BigInt(bits - prefix);
   }
 
-  static usableHosts(prefix: number): bigint {
-    if (prefix === 32) return BigInt(1);
-    if (prefix === 31) return BigInt(2);
-    const count = this.subnetAddressCount(prefix);
+  static usableHosts(prefix: number, version: IPVersion = 4): bigint {
+    const bits = this.addressBits(version);
+    if (prefix === bits) return BigInt(1);
+    if (prefix === bits - 1) return BigInt(2);
+    const count = this.subnetAddressCount(prefix, version);
+    // IPv6 has no broadcast; only the subnet-router anycast address is held back
+    if (version === 6) return count - BigInt(1);
     return count > 2 ? count - BigInt(2) : BigInt(0);
   }
 
-  static parseCIDR(cidr: string): { ip: string; prefix: number } {
-    const match = cidr.match(
-      /^(\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3})\/(\d{1,2})$/
-    );
+  static parseCIDR(cidr: string): {
+    ip: string;
+    prefix: number;
+    version: IPVersion;
+  } {
+    const match =
+      cidr.match(/^(\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3})\/(\d{1,2})$/) ??
+      cidr.match(/^([0-9a-fA-F:.]*:[0-9a-fA-F:.]*)\/(\d{1,3})$/);
     if (!match) throw new Error(`Invalid CIDR notation: ${cidr}`);
 
     const [, ip, prefixStr] = match;
     const prefix = parseInt(prefixStr, 10);
+    const version = this.ipVersion(ip);
 
-    if (prefix < 0 || prefix > 32) {
+    if (prefix < 0 || prefix > this.addressBits(version)) {
       throw new Error(`Invalid prefix length in CIDR: ${cidr}`);
     }
 
     this.ipToNumber(ip); // Validate IP
-    return { ip, prefix };
+    return { ip, prefix, version };
   }
 
   static getNetworkAddress(ip: string, prefix: number): string {
+    const version = this.ipVersion(ip);
     const ipNum = this.ipToNumber(ip);
-    const mask = this.prefixToMask(prefix);
-    return this.numberToIp(ipNum & mask);
+    const mask = this.prefixToMask(prefix, version);
+    return this.numberToIp(ipNum & mask, version);
   }
 
+  // For IPv6 this is simply the last address in the prefix
   static getBroadcastAddress(ip: string, prefix: number): string {
+    const version = this.ipVersion(ip);
     const ipNum = this.ipToNumber(ip);
-    const mask = this.prefixToMask(prefix);
-    const hostMask = ~mask & BigInt(0xffffffff);
-    return this.numberToIp((ipNum & mask) | hostMask);
+    const mask = this.prefixToMask(prefix, version);
+    const hostMask = ~mask & (version === 6 ? IPV6_MAX : IPV4_MAX);
+    return this.numberToIp((ipNum & mask) | hostMask, version);
   }
 
   static getHostRange(
     ip: string,
     prefix: number
   ): { first: string; last: string } {
-    if (prefix === 32) {
+    const version = this.ipVersion(ip);
+    const bits = this.addressBits(version);
+
+    if (prefix === bits) {
       const network = this.getNetworkAddress(ip, prefix);
       return { first: network, last: network };
     }
@@ -89,6 +201,17 @@ export class CIDRMath {
     const networkNum = this.ipToNumber(network);
     const broadcastNum = this.ipToNumber(broadcast);
 
+    if (version === 6) {
+      // RFC 6164 point-to-point links use both addresses of a /127
+      return {
+        first:
+          prefix === bits - 1
+            ? network
+            : this.numberToIp(networkNum + BigInt(1), version),
+        last: broadcast,
+      };
+    }
+
     return {
       first: this.numberToIp(networkNum + BigInt(1)),
       last: this.numberToIp(broadcastNum - BigInt(1)),
@@ -121,17 +244,19 @@ export class CIDRMath {
       );
     }
 
-    const subnetSize = this.subnetAddressCount(subnetPrefix);
+    const version = this.ipVersion(supernetIp);
+    const subnetSize = this.subnetAddressCount(subnetPrefix, version);
     const offset = subnetSize * index;
     const supernetNum = this.ipToNumber(
       this.getNetworkAddress(supernetIp, supernetPrefix)
     );
-    return this.numberToIp(supernetNum + offset);
+    return this.numberToIp(supernetNum + offset, version);
   }
 
   static isIpInCidr(ip: string, cidr: string): boolean {
     try {
-      const { ip: cidrIp, prefix } = this.parseCIDR(cidr);
+      const { ip: cidrIp, prefix, version } = this.parseCIDR(cidr);
+      if (this.ipVersion(ip) !== version) return false;
       const network = this.getNetworkAddress(cidrIp, prefix);
       const broadcast = this.getBroadcastAddress(cidrIp, prefix);
       const ipNum = this.ipToNumber(ip);
@@ -146,6 +271,13 @@ export class CIDRMath {
   // Additional utility methods
   static formatSize(addresses: bigint): string {
     const num = Number(addresses);
+    // IPv6 sizes outgrow decimal suffixes, so fall back to powers of two
+    if (num > Number.MAX_SAFE_INTEGER) {
+      const bits = Math.log2(num);
+      return Number.isInteger(bits) ? `2^${bits}` : num.toExponential(2);
+    }
+    if (num >= 1_000_000_000_000) return `${(num / 1_000_000_000_000).toFixed(2)}T`;
+    if (num >= 1_000_000_000) return `${(num / 1_000_000_000).toFixed(2)}B`;
     if (num >= 1_000_000) return `${(num / 1_000_000).toFixed(2)}M`;
     if (num >= 1_000) return `${(num / 1_000).toFixed(2)}K`;
     return num.toLocaleString();
@@ -157,4 +289,149 @@ export class CIDRMath {
     const broadcast = this.getBroadcastAddress(ip, prefix);
     return `${network} - ${broadcast}`;
   }
+
+  // Minimal list of CIDR blocks that exactly covers startIp..endIp (inclusive)
+  static rangeToCIDRs(startIp: string, endIp: string): string[] {
+    const version = this.ipVersion(startIp);
+    if (this.ipVersion(endIp) !== version) {
+      throw new Error(`Range ${startIp} - ${endIp} mixes IPv4 and IPv6`);
+    }
+
+    const start = this.ipToNumber(startIp);
+    const end = this.ipToNumber(endIp);
+    if (start > end) {
+      throw new Error(`Range start ${startIp} is after range end ${endIp}`);
+    }
+
+    return this.numericRangeToCIDRs(start, end, version);
+  }
+
+  static numericRangeToCIDRs(
+    start: bigint,
+    end: bigint,
+    version: IPVersion = 4
+  ): string[] {
+    const bits = this.addressBits(version);
+    const cidrs: string[] = [];
+    let current = start;
+
+    while (current <= end) {
+      // Grow the block while it stays aligned on current and inside the range
+      let prefix = bits;
+      while (prefix > 0) {
+        const size = BigInt(1) << BigInt(bits - prefix + 1);
+        if (current % size !== BigInt(0) || current + size - BigInt(1) > end) {
+          break;
+        }
+        prefix--;
+      }
+
+      cidrs.push(`${this.numberToIp(current, version)}/${prefix}`);
+      current += BigInt(1) << BigInt(bits - prefix);
+    }
+
+    return cidrs;
+  }
+
+  // Fewest CIDR blocks covering exactly the same addresses as the input list.
+  // Overlapping and adjacent blocks are merged; IPv4 results precede IPv6.
+  static summarize(cidrs: string[]): string[] {
+    return PrefixSet.from(cidrs).toCIDRs();
+  }
+
+  // Smallest single prefix that contains every block in the list
+  static commonSupernet(cidrs: string[]): string {
+    if (cidrs.length === 0) {
+      throw new Error("At least one CIDR is required");
+    }
+
+    const parsed = cidrs.map((cidr) => this.parseCIDR(cidr.trim()));
+    const version = parsed[0].version;
+    if (parsed.some((p) => p.version !== version)) {
+      throw new Error("Cannot find a common supernet across IPv4 and IPv6");
+    }
+
+    const bits = this.addressBits(version);
+    let low = this.ipToNumber(this.getNetworkAddress(parsed[0].ip, parsed[0].prefix));
+    let high = low;
+    let prefix = bits;
+    for (const { ip, prefix: p } of parsed) {
+      const start = this.ipToNumber(this.getNetworkAddress(ip, p));
+      const end = start + this.subnetAddressCount(p, version) - BigInt(1);
+      if (start < low) low = start;
+      if (end > high) high = end;
+      prefix = Math.min(prefix, p);
+    }
+
+    // Shorten the prefix until both ends share the same network
+    while (
+      prefix > 0 &&
+      (low & this.prefixToMask(prefix, version)) !==
+        (high & this.prefixToMask(prefix, version))
+    ) {
+      prefix--;
+    }
+
+    return `${this.numberToIp(low & this.prefixToMask(prefix, version), version)}/${prefix}`;
+  }
+
+  // Reverse DNS labels, least significant first: octets for IPv4, nibbles for IPv6
+  private static reverseLabels(num: bigint, version: IPVersion): string[] {
+    const step = version === 6 ? 4 : 8;
+    const labels: string[] = [];
+    for (let shift = 0; shift < this.addressBits(version); shift += step) {
+      const value = (num >> BigInt(shift)) & BigInt((1 << step) - 1);
+      labels.push(value.toString(version === 6 ? 16 : 10));
+    }
+    return labels;
+  }
+
+  // PTR owner name for an address, e.g. 1.2.0.10.in-addr.arpa
+  static reversePointer(ip: string): string {
+    const version = this.ipVersion(ip);
+    const suffix = version === 6 ? "ip6.arpa" : "in-addr.arpa";
+    return [...this.reverseLabels(this.ipToNumber(ip), version), suffix].join(".");
+  }
+
+  // Reverse zones that together answer for a prefix. Zones sit on octet (IPv4)
+  // or nibble (IPv6) boundaries, so a prefix between boundaries needs several;
+  // IPv4 blocks longer than a /24 get one RFC 2317 classless zone, named
+  // <first octet>-<prefix>.c.b.a.in-addr.arpa.
+  static reverseZones(
+    cidr: string
+  ): Array<{ zone: string; cidr: string; classless: boolean }> {
+    const { ip, prefix, version } = this.parseCIDR(cidr);
+    const bits = this.addressBits(version);
+    const step = version === 6 ? 4 : 8;
+    const suffix = version === 6 ? "ip6.arpa" : "in-addr.arpa";
+    const network = this.ipToNumber(this.getNetworkAddress(ip, prefix));
+
+    if (version === 4 && prefix > 24) {
+      const [last, ...labels] = this.reverseLabels(network, version);
+      return [
+        {
+          zone: [`${last}-${prefix}`, ...labels, suffix].join("."),
+          cidr: `${this.numberToIp(network, version)}/${prefix}`,
+          classless: true,
+        },
+      ];
+    }
+
+    const zonePrefix = Math.ceil(prefix / step) * step;
+    const zoneSize = this.subnetAddressCount(zonePrefix, version);
+    const count = BigInt(1) << BigInt(zonePrefix - prefix);
+    const zones: Array<{ zone: string; cidr: string; classless: boolean }> = [];
+
+    for (let i = BigInt(0); i < count; i++) {
+      const start = network + i * zoneSize;
+      const labels = this.reverseLabels(start, version).slice((bits - zonePrefix) / step);
+      zones.push({
+        zone: [...labels, suffix].join("."),
+        cidr: `${this.numberToIp(start, version)}/${zonePrefix}`,
+        classless: false,
+      });
+    }
+
+    return zones;
+  }
 }
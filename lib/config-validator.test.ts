@@ -0,0 +1,39 @@
+// @/lib/config-validator.test.ts
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { ConfigValidator, DEFAULT_GROWTH_MULTIPLIER } from "./config-validator";
+
+const config = {
+  supernet: "10.0.0.0/8",
+  regionBiases: [
+    { name: "A", ratio: 2, code: "AA" },
+    { name: "B", ratio: 1, code: "BB" },
+  ],
+  subRegionsPerRegion: 2,
+  vlansPerSite: 5,
+  vlanSize: 24,
+  totalSitesNeeded: 1000,
+};
+
+test("defaults a missing growthMultiplier", () => {
+  const outcome = ConfigValidator.validate(config);
+  assert.ok(outcome.ok);
+  assert.equal(outcome.config.growthMultiplier, DEFAULT_GROWTH_MULTIPLIER);
+});
+
+test("keeps a given growthMultiplier", () => {
+  const outcome = ConfigValidator.validate({ ...config, growthMultiplier: 1.5 });
+  assert.ok(outcome.ok);
+  assert.equal(outcome.config.growthMultiplier, 1.5);
+});
+
+test("rejects a growthMultiplier that is not a finite positive number", () => {
+  for (const growthMultiplier of [0, -2, Infinity, NaN, "3", null]) {
+    const outcome = ConfigValidator.validate({ ...config, growthMultiplier });
+    assert.ok(!outcome.ok, `accepted ${String(growthMultiplier)}`);
+    assert.deepEqual(outcome.issues, [
+      { path: "growthMultiplier", message: "must be a positive number" },
+    ]);
+  }
+});
@@ -0,0 +1,248 @@
+// @/lib/config-validator.ts
+
+import { CIDRMath } from "./cidr-math";
+import type {
+  AllocationConfig,
+  ExistingSite,
+  LevelTemplate,
+  RegionBias,
+  SiteTier,
+  TerritorySpec,
+} from "./hierarchical-allocator";
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export type ValidationOutcome =
+  | { ok: true; config: AllocationConfig }
+  | { ok: false; issues: ValidationIssue[] };
+
+// Applied when a config leaves growthMultiplier out (the UI default as well)
+export const DEFAULT_GROWTH_MULTIPLIER = 3;
+
+// Structural validation for configs that arrive from outside the UI (API,
+// CLI, files). Collects every issue instead of stopping at the first, and
+// leaves planning rules (ratios, prefix limits, overlaps) to the allocator.
+export class ConfigValidator {
+  static validate(input: unknown): ValidationOutcome {
+    const issues: ValidationIssue[] = [];
+    const issue = (path: string, message: string) => issues.push({ path, message });
+
+    if (!this.isObject(input)) {
+      return { ok: false, issues: [{ path: "", message: "must be a JSON object" }] };
+    }
+
+    const cidr = (value: unknown, path: string): string => {
+      if (typeof value !== "string") {
+        issue(path, "must be a CIDR string");
+        return "";
+      }
+      try {
+        CIDRMath.parseCIDR(value.trim());
+      } catch {
+        issue(path, `"${value}" is not valid CIDR notation`);
+      }
+      return value.trim();
+    };
+
+    const integer = (value: unknown, path: string, min: number, max = Infinity): number => {
+      if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+        issue(path, max === Infinity ? `must be an integer >= ${min}` : `must be an integer between ${min} and ${max}`);
+        return min;
+      }
+      return value;
+    };
+
+    const supernet = cidr(input.supernet, "supernet");
+
+    const regionBiases: RegionBias[] = [];
+    if (!Array.isArray(input.regionBiases) || input.regionBiases.length === 0) {
+      issue("regionBiases", "must be a non-empty array");
+    } else {
+      input.regionBiases.forEach((bias: unknown, i: number) => {
+        const path = `regionBiases[${i}]`;
+        if (!this.isObject(bias)) {
+          issue(path, "must be an object with name and ratio");
+          return;
+        }
+        if (typeof bias.name !== "string" || !bias.name.trim()) {
+          issue(`${path}.name`, "must be a non-empty string");
+        }
+        if (typeof bias.ratio !== "number" || !(bias.ratio > 0)) {
+          issue(`${path}.ratio`, "must be a positive number");
+        }
+        if (bias.code !== undefined && typeof bias.code !== "string") {
+          issue(`${path}.code`, "must be a string");
+        }
+        const region: RegionBias = {
+          name: String(bias.name),
+          ratio: Number(bias.ratio),
+          code: typeof bias.code === "string" ? bias.code : undefined,
+        };
+        if (bias.territories !== undefined) {
+          if (!Array.isArray(bias.territories) || bias.territories.length === 0) {
+            issue(`${path}.territories`, "must be a non-empty array of territories");
+          } else {
+            region.territories = bias.territories.map((territory: unknown, j: number) => {
+              const fields = this.isObject(territory) ? territory : {};
+              const territoryPath = `${path}.territories[${j}]`;
+              if (typeof fields.name !== "string" || !fields.name.trim()) {
+                issue(`${territoryPath}.name`, "must be a non-empty string");
+              }
+              if (fields.code !== undefined && typeof fields.code !== "string") {
+                issue(`${territoryPath}.code`, "must be a string");
+              }
+              const spec: TerritorySpec = { name: String(fields.name ?? "") };
+              if (typeof fields.code === "string") spec.code = fields.code;
+              if (fields.weight !== undefined) spec.weight = integer(fields.weight, `${territoryPath}.weight`, 1);
+              return spec;
+            });
+          }
+        }
+        if (bias.sitesNeeded !== undefined) {
+          region.sitesNeeded = integer(bias.sitesNeeded, `${path}.sitesNeeded`, 0);
+        }
+        if (bias.territorySites !== undefined) {
+          if (!Array.isArray(bias.territorySites)) {
+            issue(`${path}.territorySites`, "must be an array of site counts");
+          } else {
+            region.territorySites = bias.territorySites.map((count: unknown, j: number) =>
+              integer(count, `${path}.territorySites[${j}]`, 0)
+            );
+          }
+        }
+        regionBiases.push(region);
+      });
+    }
+
+    const config: AllocationConfig = {
+      supernet,
+      regionBiases,
+      subRegionsPerRegion: integer(input.subRegionsPerRegion, "subRegionsPerRegion", 1),
+      vlansPerSite: integer(input.vlansPerSite, "vlansPerSite", 1),
+      vlanSize: integer(input.vlanSize, "vlanSize", 0, 128),
+      totalSitesNeeded: integer(input.totalSitesNeeded, "totalSitesNeeded", 1),
+      growthMultiplier: DEFAULT_GROWTH_MULTIPLIER,
+    };
+
+    if (input.growthMultiplier !== undefined) {
+      if (
+        typeof input.growthMultiplier !== "number" ||
+        !Number.isFinite(input.growthMultiplier) ||
+        input.growthMultiplier <= 0
+      ) {
+        issue("growthMultiplier", "must be a positive number");
+      } else {
+        config.growthMultiplier = input.growthMultiplier;
+      }
+    }
+
+    if (input.dualStack !== undefined) {
+      if (!this.isObject(input.dualStack)) {
+        issue("dualStack", "must be an object with ipv6Supernet");
+      } else {
+        config.dualStack = {
+          ipv6Supernet: cidr(input.dualStack.ipv6Supernet, "dualStack.ipv6Supernet"),
+        };
+      }
+    }
+
+    if (input.exclusions !== undefined) {
+      if (!Array.isArray(input.exclusions)) {
+        issue("exclusions", "must be an array of CIDR strings");
+      } else {
+        config.exclusions = input.exclusions.map((entry: unknown, i: number) =>
+          cidr(entry, `exclusions[${i}]`)
+        );
+      }
+    }
+
+    if (input.existingSites !== undefined) {
+      if (!Array.isArray(input.existingSites)) {
+        issue("existingSites", "must be an array of sites");
+      } else {
+        config.existingSites = input.existingSites.map((site: unknown, i: number) => {
+          const path = `existingSites[${i}]`;
+          const fields = this.isObject(site) ? site : {};
+          if (!this.isObject(site)) issue(path, "must be an object with region and cidr");
+          if (typeof fields.region !== "string" || !fields.region) {
+            issue(`${path}.region`, "must be a region name or code");
+          }
+          const existing: ExistingSite = {
+            name: typeof fields.name === "string" && fields.name ? fields.name : `Site ${i + 1}`,
+            region: String(fields.region ?? ""),
+            cidr: cidr(fields.cidr, `${path}.cidr`),
+          };
+          if (fields.territory !== undefined) existing.territory = String(fields.territory);
+          return existing;
+        });
+      }
+    }
+
+    if (input.levels !== undefined) {
+      if (!Array.isArray(input.levels)) {
+        issue("levels", "must be an array of levels");
+      } else {
+        config.levels = input.levels.map((entry: unknown, i: number) => {
+          const path = `levels[${i}]`;
+          const fields = this.isObject(entry) ? entry : {};
+          if (typeof fields.name !== "string" || !fields.name.trim()) {
+            issue(`${path}.name`, "must be a non-empty string");
+          }
+          const level: LevelTemplate = { name: String(fields.name ?? "") };
+          if (fields.weights !== undefined) {
+            if (!Array.isArray(fields.weights) || fields.weights.length === 0) {
+              issue(`${path}.weights`, "must be a non-empty array of weights");
+            } else {
+              level.weights = fields.weights.map((weight: unknown, j: number) =>
+                integer(weight, `${path}.weights[${j}]`, 1)
+              );
+            }
+          } else {
+            level.count = integer(fields.count, `${path}.count`, 1);
+          }
+          if (fields.naming !== undefined) {
+            if (typeof fields.naming !== "string") issue(`${path}.naming`, "must be a string");
+            else level.naming = fields.naming;
+          }
+          return level;
+        });
+      }
+    }
+
+    if (input.siteTiers !== undefined) {
+      if (!Array.isArray(input.siteTiers)) {
+        issue("siteTiers", "must be an array of site tiers");
+      } else {
+        config.siteTiers = input.siteTiers.map((entry: unknown, i: number) => {
+          const path = `siteTiers[${i}]`;
+          const fields = this.isObject(entry) ? entry : {};
+          if (typeof fields.name !== "string" || !fields.name.trim()) {
+            issue(`${path}.name`, "must be a non-empty string");
+          }
+          const tier: SiteTier = {
+            name: String(fields.name ?? ""),
+            vlansPerSite: integer(fields.vlansPerSite, `${path}.vlansPerSite`, 1),
+            vlanSize: integer(fields.vlanSize, `${path}.vlanSize`, 0, 128),
+            sitesNeeded: integer(fields.sitesNeeded, `${path}.sitesNeeded`, 1),
+          };
+          return tier;
+        });
+      }
+    }
+
+    return issues.length > 0 ? { ok: false, issues } : { ok: true, config };
+  }
+
+  static formatIssues(issues: ValidationIssue[]): string {
+    return issues
+      .map((i) => (i.path ? `${i.path}: ${i.message}` : i.message))
+      .join("\n");
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,131 @@
+// @/lib/csv-export.ts
+
+import type { AllocationResult } from "./hierarchical-allocator";
+import { SitePlan } from "./site-plan";
+
+export interface CsvExportOptions {
+  includeVlans: boolean;
+  vlanPrefixes: number[]; // Full VLAN template, one prefix per VLAN
+  rowsPerChunk?: number;
+}
+
+const DEFAULT_ROWS_PER_CHUNK = 2000;
+
+export class CsvExport {
+  static escape(value: string | number | bigint | undefined): string {
+    const text = value === undefined ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  static header(result: AllocationResult, includeVlans: boolean): string[] {
+    const dualStack = Boolean(result.dualStack);
+    return [
+      "region",
+      "region_code",
+      "territory",
+      "territory_cidr",
+      "site_index",
+      "site_name",
+      "site_cidr",
+      "status",
+      ...(result.siteTiers ? ["site_tier"] : []),
+      ...(dualStack ? ["site_ipv6"] : []),
+      ...(includeVlans
+        ? [
+            "vlan_index",
+            "vlan_id",
+            "vlan_cidr",
+            "gateway",
+            "usable_hosts",
+            ...(dualStack ? ["vlan_ipv6"] : []),
+          ]
+        : []),
+    ];
+  }
+
+  // One row per site, or one row per VLAN when VLANs are included
+  static *rows(
+    result: AllocationResult,
+    options: CsvExportOptions
+  ): Generator<string[]> {
+    const dualStack = Boolean(result.dualStack);
+    const mapper = SitePlan.mapper(result);
+
+    for (const site of SitePlan.sites(result)) {
+      const siteFields = [
+        site.region.name,
+        site.region.metadata?.code ?? "",
+        site.territory.name,
+        site.territory.cidr,
+        String(site.index),
+        site.name,
+        site.cidr,
+        site.status,
+        ...(result.siteTiers ? [site.tier ?? ""] : []),
+        ...(dualStack ? [site.ipv6Cidr ?? ""] : []),
+      ];
+
+      // Existing sites keep their own numbering, so no VLANs are derived for them
+      if (!options.includeVlans || site.status === "existing") {
+        yield siteFields;
+        continue;
+      }
+
+      const { vlans } = SitePlan.layoutVlans(
+        site.cidr,
+        SitePlan.poolVlanPrefixes(result, site, options.vlanPrefixes),
+        mapper
+      );
+      for (const vlan of vlans) {
+        yield [
+          ...siteFields,
+          String(vlan.index),
+          String(vlan.vlanId),
+          vlan.cidr,
+          vlan.gateway,
+          vlan.usableHosts.toString(),
+          ...(dualStack ? [vlan.ipv6Cidr ?? ""] : []),
+        ];
+      }
+    }
+  }
+
+  // CSV text in chunks, yielding to the event loop between chunks so large
+  // plans can be written without blocking the UI
+  static async *stream(
+    result: AllocationResult,
+    options: CsvExportOptions,
+    onProgress?: (rows: number) => void
+  ): AsyncGenerator<string> {
+    const rowsPerChunk = options.rowsPerChunk ?? DEFAULT_ROWS_PER_CHUNK;
+    const toLine = (fields: string[]) => fields.map((f) => this.escape(f)).join(",");
+    let lines = [toLine(this.header(result, options.includeVlans))];
+    let count = 0;
+
+    for (const row of this.rows(result, options)) {
+      lines.push(toLine(row));
+      count++;
+      if (lines.length >= rowsPerChunk) {
+        yield lines.join("\n") + "\n";
+        lines = [];
+        onProgress?.(count);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    }
+
+    if (lines.length > 0) yield lines.join("\n") + "\n";
+    onProgress?.(count);
+  }
+
+  static async toBlob(
+    result: AllocationResult,
+    options: CsvExportOptions,
+    onProgress?: (rows: number) => void
+  ): Promise<Blob> {
+    const chunks: string[] = [];
+    for await (const chunk of this.stream(result, options, onProgress)) {
+      chunks.push(chunk);
+    }
+    return new Blob(chunks, { type: "text/csv" });
+  }
+}
@@ -0,0 +1,289 @@
+// @/lib/design-report.ts
+
+import { CIDRMath } from "./cidr-math";
+import type { AllocationConfig, AllocationResult, HierarchyLevel } from "./hierarchical-allocator";
+import { LevelList } from "./level-list";
+import { SitePlan } from "./site-plan";
+import { SiteTierList } from "./site-tier-list";
+
+// Format-neutral report content, rendered to Markdown or HTML
+export type ReportBlock =
+  | { kind: "heading"; level: 1 | 2; text: string }
+  | { kind: "paragraph"; text: string }
+  | { kind: "table"; headers: string[]; rows: string[][] }
+  | { kind: "list"; items: string[] }
+  | { kind: "tree"; lines: string[] };
+
+export class DesignReport {
+  static blocks(
+    config: AllocationConfig,
+    result: AllocationResult,
+    vlanPrefixes: number[],
+    generatedAt = new Date()
+  ): ReportBlock[] {
+    const { summary } = result;
+    const blocks: ReportBlock[] = [
+      { kind: "heading", level: 1, text: `IPAM Design Report: ${result.hierarchy.cidr}` },
+      { kind: "paragraph", text: `Generated by IPAM Architect on ${generatedAt.toISOString().slice(0, 10)}.` },
+
+      { kind: "heading", level: 2, text: "Configuration" },
+      {
+        kind: "table",
+        headers: ["Parameter", "Value"],
+        rows: [
+          ["Supernet", config.supernet],
+          ...(config.dualStack ? [["IPv6 supernet", config.dualStack.ipv6Supernet]] : []),
+          [
+            "Regions",
+            config.regionBiases
+              .map((r) => `${r.name}${r.code ? ` (${r.code})` : ""}: weight ${r.ratio}`)
+              .join("; "),
+          ],
+          [
+            "Territories per region",
+            config.regionBiases.some((r) => r.territories)
+              ? config.regionBiases
+                  .map((r) => `${r.name}: ${r.territories?.length ?? config.subRegionsPerRegion}`)
+                  .join("; ")
+              : String(config.subRegionsPerRegion),
+          ],
+          ...(config.levels
+            ? [["Levels below regions", config.levels.length > 0 ? LevelList.format(config.levels) : "None, sites sit in the regions"]]
+            : []),
+          ...(config.siteTiers
+            ? [["Site tiers", SiteTierList.format(config.siteTiers)]]
+            : []),
+          ["Sites needed", config.totalSitesNeeded.toLocaleString("en-US")],
+          [
+            "Sizing",
+            config.regionBiases.some((r) => r.sitesNeeded !== undefined || r.territorySites)
+              ? `Site demand with ${config.growthMultiplier}x growth`
+              : "Region weights",
+          ],
+          ["Growth multiplier", `${config.growthMultiplier}x`],
+          ["VLANs per site", String(config.vlansPerSite)],
+          ["Standard VLAN size", `/${config.vlanSize}`],
+          ["Exclusions", config.exclusions?.length ? config.exclusions.join(", ") : "None"],
+          ["Existing sites", String(config.existingSites?.length ?? 0)],
+        ],
+      },
+
+      { kind: "heading", level: 2, text: "Summary" },
+      {
+        kind: "table",
+        headers: ["Metric", "Value"],
+        rows: [
+          ["Site block", `/${result.sitePrefixRecommendation}`],
+          ["Sites supported", result.totalSitesSupported.toLocaleString("en-US")],
+          ["Regions", String(summary.totalRegions)],
+          ["Territories", String(summary.totalSubRegions)],
+          ["Utilization", `${result.utilizationPercentage.toFixed(1)}%`],
+          ...(result.brownfield
+            ? [["Existing sites pinned", `${result.brownfield.pinned} (${result.brownfield.rejected} rejected)`]]
+            : []),
+        ],
+      },
+
+      { kind: "heading", level: 2, text: "Region Breakdown" },
+      {
+        kind: "table",
+        headers: ["Region", "Code", "Weight", "Requested split", "Actual split", "CIDR", "Share", "Sites needed", "Site capacity"],
+        rows: summary.regionBreakdown.map((r) => [
+          r.name,
+          r.code ?? config.regionBiases.find((b) => b.name === r.name)?.code ?? "",
+          String(r.ratio),
+          `${r.requestedShare.toFixed(1)}%`,
+          `${r.actualShare.toFixed(1)}%`,
+          r.cidr,
+          `${r.percentage.toFixed(1)}%`,
+          r.sitesNeeded?.toLocaleString("en-US") ?? "",
+          r.sitesCapacity.toLocaleString("en-US"),
+        ]),
+      },
+    ];
+
+    if (result.siteTiers) {
+      blocks.push(
+        { kind: "heading", level: 2, text: "Site Tiers" },
+        {
+          kind: "table",
+          headers: ["Tier", "VLANs per site", "VLAN size", "Site block", "Sites needed", "Site capacity"],
+          rows: result.siteTiers.map((t) => [
+            t.name,
+            String(t.vlansPerSite),
+            `/${t.vlanSize}`,
+            `/${t.sitePrefix}`,
+            t.sitesNeeded.toLocaleString("en-US"),
+            t.sitesCapacity.toLocaleString("en-US"),
+          ]),
+        }
+      );
+    }
+
+    if (summary.exclusions.length > 0) {
+      blocks.push(
+        { kind: "heading", level: 2, text: "Exclusions" },
+        {
+          kind: "table",
+          headers: ["CIDR", "Share of supernet"],
+          rows: summary.exclusions.map((e) => [e.cidr, `${e.percentage.toFixed(2)}%`]),
+        }
+      );
+    }
+
+    const notes = [...(result.warnings ?? []), ...(result.recommendations ?? [])];
+    blocks.push(
+      { kind: "heading", level: 2, text: "Warnings and Recommendations" },
+      notes.length > 0 ? { kind: "list", items: notes } : { kind: "paragraph", text: "None." },
+
+      { kind: "heading", level: 2, text: "Hierarchy" },
+      { kind: "tree", lines: this.treeLines(result.hierarchy) },
+
+      ...(result.siteTiers ?? [undefined]).flatMap((tier): ReportBlock[] => [
+        { kind: "heading", level: 2, text: `${tier?.name ?? "Standard"} Site VLANs` },
+        ...this.vlanBlocks(result, vlanPrefixes, tier?.name),
+      ])
+    );
+
+    return blocks;
+  }
+
+  // Supernet, regions and territories (sites are too many to list), plus pinned existing sites
+  private static treeLines(level: HierarchyLevel, prefix = "", last = true, root = true): string[] {
+    const ipv6 = level.ipv6 ? `  ${level.ipv6.cidr}` : "";
+    const capacity =
+      level.metadata?.sitesCapacity !== undefined
+        ? `  (${level.metadata.sitesCapacity.toLocaleString("en-US")} sites)`
+        : "";
+    const line = `${root ? "" : `${prefix}${last ? "└── " : "├── "}`}${level.name}  ${level.cidr}${ipv6}${capacity}`;
+    const childPrefix = root ? "" : `${prefix}${last ? "    " : "│   "}`;
+    const children = level.children ?? [];
+
+    return [
+      line,
+      ...children.flatMap((child, i) => this.treeLines(child, childPrefix, i === children.length - 1, false)),
+    ];
+  }
+
+  // VLAN layout of the first planned site (of a site tier, when given); every
+  // site repeats it at its own base
+  private static vlanBlocks(result: AllocationResult, standard: number[], tier?: string): ReportBlock[] {
+    const site = [...SitePlan.sites(result, { perTerritory: 1 })].find(
+      (s) => s.status === "planned" && s.tier === tier
+    );
+    if (!site) return [{ kind: "paragraph", text: "No site slots are available." }];
+
+    const vlanPrefixes = SitePlan.poolVlanPrefixes(result, site, standard);
+    const { vlans } = SitePlan.layoutVlans(site.cidr, vlanPrefixes, SitePlan.mapper(result));
+    const dualStack = vlans.some((v) => v.ipv6Cidr);
+    const version = CIDRMath.ipVersion(site.network);
+
+    return [
+      {
+        kind: "paragraph",
+        text:
+          `Every /${site.prefix} site repeats this layout at its own base address. ` +
+          `Example: ${site.name} (${site.cidr}${site.ipv6Cidr ? `, ${site.ipv6Cidr}` : ""}).` +
+          (vlans.length < vlanPrefixes.length
+            ? ` Only ${vlans.length} of ${vlanPrefixes.length} VLANs fit in the site block.`
+            : ""),
+      },
+      {
+        kind: "table",
+        headers: ["VLAN", "ID", "Prefix", "Example CIDR", "Gateway", "Usable hosts", ...(dualStack ? ["IPv6"] : [])],
+        rows: vlans.map((v) => [
+          `VLAN ${v.index}`,
+          String(v.vlanId),
+          `/${v.prefix}`,
+          v.cidr,
+          v.gateway,
+          version === 6 ? CIDRMath.formatSize(v.usableHosts) : v.usableHosts.toLocaleString("en-US"),
+          ...(dualStack ? [v.ipv6Cidr ?? ""] : []),
+        ]),
+      },
+    ];
+  }
+
+  static toMarkdown(blocks: ReportBlock[]): string {
+    const cell = (text: string) => text.replace(/\|/g, "\\|");
+
+    return (
+      blocks
+        .map((block) => {
+          switch (block.kind) {
+            case "heading":
+              return `${"#".repeat(block.level)} ${block.text}`;
+            case "paragraph":
+              return block.text;
+            case "list":
+              return block.items.map((item) => `- ${item}`).join("\n");
+            case "tree":
+              return ["```", ...block.lines, "```"].join("\n");
+            case "table":
+              return [
+                `| ${block.headers.map(cell).join(" | ")} |`,
+                `| ${block.headers.map(() => "---").join(" | ")} |`,
+                ...block.rows.map((row) => `| ${row.map(cell).join(" | ")} |`),
+              ].join("\n");
+          }
+        })
+        .join("\n\n") + "\n"
+    );
+  }
+
+  // Standalone page styled for paper: open it and print, or save as PDF
+  static toHTML(blocks: ReportBlock[]): string {
+    const escape = (text: string) =>
+      text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+    const title = blocks.find((b) => b.kind === "heading" && b.level === 1);
+
+    const body = blocks
+      .map((block) => {
+        switch (block.kind) {
+          case "heading":
+            return `<h${block.level}>${escape(block.text)}</h${block.level}>`;
+          case "paragraph":
+            return `<p>${escape(block.text)}</p>`;
+          case "list":
+            return `<ul>\n${block.items.map((item) => `  <li>${escape(item)}</li>`).join("\n")}\n</ul>`;
+          case "tree":
+            return `<pre>${escape(block.lines.join("\n"))}</pre>`;
+          case "table":
+            return [
+              "<table>",
+              `  <thead><tr>${block.headers.map((h) => `<th>${escape(h)}</th>`).join("")}</tr></thead>`,
+              "  <tbody>",
+              ...block.rows.map((row) => `    <tr>${row.map((c) => `<td>${escape(c)}</td>`).join("")}</tr>`),
+              "  </tbody>",
+              "</table>",
+            ].join("\n");
+        }
+      })
+      .join("\n");
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title && title.kind === "heading" ? escape(title.text) : "IPAM Design Report"}</title>
+<style>
+  @page { size: A4; margin: 18mm 16mm; }
+  body { font: 10.5pt/1.5 system-ui, -apple-system, "Segoe UI", sans-serif; color: #111; max-width: 180mm; margin: 2rem auto; }
+  h1 { font-size: 18pt; margin: 0 0 0.25rem; }
+  h2 { font-size: 13pt; margin: 1.5rem 0 0.5rem; padding-bottom: 0.2rem; border-bottom: 1px solid #ccc; break-after: avoid; }
+  table { width: 100%; border-collapse: collapse; margin: 0.5rem 0; font-size: 9.5pt; }
+  th, td { text-align: left; padding: 0.25rem 0.5rem; border: 1px solid #ccc; vertical-align: top; }
+  th { background: #f2f2f2; }
+  tr, pre, li { break-inside: avoid; }
+  td, pre { font-family: ui-monospace, "SFMono-Regular", Menlo, monospace; }
+  pre { font-size: 8.5pt; line-height: 1.35; background: #f7f7f7; border: 1px solid #ddd; padding: 0.75rem; white-space: pre-wrap; }
+  @media print { body { margin: 0; max-width: none; } }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+  }
+}
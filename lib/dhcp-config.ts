@@ -0,0 +1,100 @@
+// @/lib/dhcp-config.ts
+
+import { CIDRMath } from "./cidr-math";
+import type { PlannedVlan } from "./site-plan";
+
+export type DhcpServer = "kea" | "dnsmasq";
+
+export interface DhcpSite {
+  name: string;
+  cidr: string;
+  vlans: PlannedVlan[];
+}
+
+export interface DhcpOptions {
+  reserveHead: number; // Hosts kept out of the pool from the start, gateway included
+  reserveTail: number; // Hosts kept out of the pool at the end
+  leaseTime: number; // Seconds
+}
+
+export interface DhcpScope {
+  vlan: PlannedVlan;
+  netmask: string;
+  poolStart: string;
+  poolEnd: string;
+  size: bigint;
+}
+
+export const DEFAULT_DHCP_OPTIONS: DhcpOptions = { reserveHead: 10, reserveTail: 5, leaseTime: 43200 };
+
+export class DhcpConfig {
+  // Pool inside the VLAN's host range after the head and tail reservations;
+  // undefined for IPv6 VLANs and VLANs too small to leave any addresses
+  static scope(vlan: PlannedVlan, options: DhcpOptions): DhcpScope | undefined {
+    if (CIDRMath.ipVersion(vlan.network) !== 4) return undefined;
+
+    const { first, last } = CIDRMath.getHostRange(vlan.network, vlan.prefix);
+    const start = CIDRMath.ipToNumber(first) + BigInt(Math.max(1, options.reserveHead));
+    const end = CIDRMath.ipToNumber(last) - BigInt(Math.max(0, options.reserveTail));
+    if (start > end) return undefined;
+
+    return {
+      vlan,
+      netmask: CIDRMath.numberToIp(CIDRMath.prefixToMask(vlan.prefix, 4), 4),
+      poolStart: CIDRMath.numberToIp(start, 4),
+      poolEnd: CIDRMath.numberToIp(end, 4),
+      size: end - start + BigInt(1),
+    };
+  }
+
+  static scopes(site: DhcpSite, options: DhcpOptions): DhcpScope[] {
+    return site.vlans
+      .map((vlan) => this.scope(vlan, options))
+      .filter((scope): scope is DhcpScope => scope !== undefined);
+  }
+
+  // Kea Dhcp4 fragment. Subnet IDs are the network address as an integer,
+  // which is unique within a plan and stable across regenerations.
+  static kea(site: DhcpSite, options: DhcpOptions): string {
+    const subnet4 = this.scopes(site, options).map(({ vlan, poolStart, poolEnd }) => ({
+      id: Number(CIDRMath.ipToNumber(vlan.network)),
+      subnet: vlan.cidr,
+      "valid-lifetime": options.leaseTime,
+      pools: [{ pool: `${poolStart} - ${poolEnd}` }],
+      "option-data": [{ name: "routers", data: vlan.gateway }],
+      "user-context": { site: site.name, vlan: vlan.vlanId },
+    }));
+
+    return JSON.stringify({ Dhcp4: { subnet4 } }, null, 2) + "\n";
+  }
+
+  static dnsmasq(site: DhcpSite, options: DhcpOptions): string {
+    const lines = [`# ${site.name} ${site.cidr}`];
+
+    for (const vlan of site.vlans) {
+      const scope = this.scope(vlan, options);
+      lines.push("", `# VLAN${vlan.index} (ID ${vlan.vlanId}) ${vlan.cidr}`);
+      if (!scope) {
+        lines.push(
+          CIDRMath.ipVersion(vlan.network) === 4
+            ? "# No pool: nothing left after the head and tail reservations"
+            : "# No pool: DHCPv4 scopes only"
+        );
+        continue;
+      }
+
+      const { netmask, poolStart, poolEnd } = scope;
+      const tag = `${site.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}-vlan${vlan.vlanId}`;
+      lines.push(
+        `dhcp-range=set:${tag},${poolStart},${poolEnd},${netmask},${options.leaseTime}`,
+        `dhcp-option=tag:${tag},option:router,${vlan.gateway}`
+      );
+    }
+
+    return lines.join("\n") + "\n";
+  }
+
+  static generate(server: DhcpServer, site: DhcpSite, options: DhcpOptions): string {
+    return server === "kea" ? this.kea(site, options) : this.dnsmasq(site, options);
+  }
+}
@@ -0,0 +1,87 @@
+// @/lib/dual-stack.ts
+
+import { CIDRMath } from "./cidr-math";
+import type { HierarchyLevel } from "./hierarchical-allocator";
+
+const IPV6_VLAN_PREFIX = 64;
+
+// Mirrors an IPv4 plan into an IPv6 prefix. The IPv4 bits between the supernet
+// and the standard VLAN size are copied verbatim into the IPv6 bits that end at
+// /64, so VLAN 10.1.2.0/24 inside 10.0.0.0/8 lands on <ipv6-base>:0102::/64.
+export class DualStackMapper {
+  private ipv4Base: bigint;
+  private ipv6Base: bigint;
+  private vlanSize: number;
+  private prefixShift: number;
+
+  constructor(ipv4Supernet: string, ipv6Supernet: string, vlanSize: number) {
+    const v4 = CIDRMath.parseCIDR(ipv4Supernet);
+    const v6 = CIDRMath.parseCIDR(ipv6Supernet);
+
+    if (v4.version !== 4) {
+      throw new Error("Dual-stack mode requires an IPv4 primary supernet");
+    }
+    if (v6.version !== 6) {
+      throw new Error(`Dual-stack supernet ${ipv6Supernet} is not an IPv6 prefix`);
+    }
+
+    this.vlanSize = vlanSize;
+    this.prefixShift = IPV6_VLAN_PREFIX - vlanSize;
+
+    const requiredPrefix = v4.prefix + this.prefixShift;
+    if (v6.prefix > requiredPrefix) {
+      throw new Error(
+        `IPv6 supernet /${v6.prefix} is too small to mirror ${ipv4Supernet} with /${vlanSize} VLANs - use a /${requiredPrefix} or larger`
+      );
+    }
+
+    this.ipv4Base = CIDRMath.ipToNumber(
+      CIDRMath.getNetworkAddress(v4.ip, v4.prefix)
+    );
+    this.ipv6Base = CIDRMath.ipToNumber(
+      CIDRMath.getNetworkAddress(v6.ip, v6.prefix)
+    );
+  }
+
+  // IPv6 counterpart of an IPv4 block; blocks smaller than a standard VLAN
+  // collapse onto the /64 that contains them
+  mapPrefix(ipv4Cidr: string): string {
+    const { ip, prefix } = CIDRMath.parseCIDR(ipv4Cidr);
+    const offset = CIDRMath.ipToNumber(ip) - this.ipv4Base;
+    const vlanIndex = offset >> BigInt(32 - this.vlanSize);
+    const network = this.ipv6Base + (vlanIndex << BigInt(128 - IPV6_VLAN_PREFIX));
+    const ipv6Prefix = Math.min(IPV6_VLAN_PREFIX, prefix + this.prefixShift);
+
+    return `${CIDRMath.getNetworkAddress(
+      CIDRMath.numberToIp(network, 6),
+      ipv6Prefix
+    )}/${ipv6Prefix}`;
+  }
+
+  // The /64 for the Nth VLAN of a site, independent of the IPv4 VLAN sizes
+  mapVlan(siteCidr: string, vlanIndex: number): string {
+    const { ip: siteIp } = CIDRMath.parseCIDR(this.mapPrefix(siteCidr));
+    const network =
+      CIDRMath.ipToNumber(siteIp) +
+      (BigInt(vlanIndex) << BigInt(128 - IPV6_VLAN_PREFIX));
+    return `${CIDRMath.numberToIp(network, 6)}/${IPV6_VLAN_PREFIX}`;
+  }
+
+  static describe(ipv6Cidr: string): NonNullable<HierarchyLevel["ipv6"]> {
+    const { ip, prefix } = CIDRMath.parseCIDR(ipv6Cidr);
+    const network = CIDRMath.getNetworkAddress(ip, prefix);
+    const { first, last } = CIDRMath.getHostRange(network, prefix);
+    return {
+      cidr: `${network}/${prefix}`,
+      network,
+      prefix,
+      addressRange: `${first} - ${last}`,
+    };
+  }
+
+  // Attach the mirrored IPv6 prefix to a level and all of its descendants
+  annotate(level: HierarchyLevel): void {
+    level.ipv6 = DualStackMapper.describe(this.mapPrefix(level.cidr));
+    level.children?.forEach((child) => this.annotate(child));
+  }
+}
@@ -1,6 +1,8 @@
 // @/lib/hierarchical-allocator.ts
 
-import { CIDRMath } from "./cidr-math";
+import { CIDRMath, type IPVersion } from "./cidr-math";
+import { DualStackMapper } from "./dual-stack";
+import { PrefixSet } from "./prefix-set";
 
 export interface HierarchyLevel {
   id: string; // Unique identifier for React keys
@@ -13,19 +15,70 @@ export interface HierarchyLevel {
   totalAddresses: bigint;
   usableHosts: bigint;
   children?: HierarchyLevel[];
+  // Mirrored IPv6 prefix when the plan is allocated in dual-stack mode
+  ipv6?: {
+    cidr: string;
+    network: string;
+    prefix: number;
+    addressRange: string;
+  };
   metadata?: {
     sitesCapacity?: number;
     sitePrefix?: number;
     ratio?: number;
     utilization?: number;
     code?: string;
+    excluded?: boolean;
+    unallocated?: boolean; // Free rest of a split, not a planned block
+    existing?: boolean;
+    sitesExisting?: number;
+    sitesNeeded?: number;
+    level?: string; // Level template name of a block below a region
+    siteTier?: string; // Site tier whose sites the block holds
   };
 }
 
+export interface TerritorySpec {
+  name: string;
+  code?: string;
+  weight?: number; // Whole number, defaults to 1
+}
+
 export interface RegionBias {
   name: string;
   ratio: number;
   code?: string;
+  // Named territories; overrides subRegionsPerRegion for this region
+  territories?: TerritorySpec[];
+  // Expected sites; when any region sets one, blocks are sized from demand
+  sitesNeeded?: number;
+  territorySites?: number[]; // Per territory, overrides sitesNeeded
+}
+
+// One tier of blocks below the regions: every block of the tier above is
+// split into count equal blocks, or one block per weight
+export interface LevelTemplate {
+  name: string; // e.g. "City"
+  count?: number;
+  weights?: number[]; // Whole numbers; overrides count
+  naming?: string; // Block names from {parent}, {name} and {n}; defaults to "{parent} {name} {n}"
+}
+
+// A class of site with its own VLAN template, e.g. kiosks with two small
+// VLANs next to HQ campuses with forty
+export interface SiteTier {
+  name: string;
+  vlansPerSite: number;
+  vlanSize: number;
+  sitesNeeded: number; // Expected sites of this tier across the plan
+}
+
+// A site that is already numbered and must be adopted into the plan
+export interface ExistingSite {
+  name: string;
+  region: string; // Region name or code
+  cidr: string;
+  territory?: string; // Territory name, code or 1-based number, or the name or code of any deeper tier
 }
 
 export interface AllocationConfig {
@@ -36,6 +89,26 @@ export interface AllocationConfig {
   vlanSize: number;
   totalSitesNeeded: number;
   growthMultiplier: number;
+  dualStack?: {
+    ipv6Supernet: string;
+  };
+  // Blocks inside the supernet that are already in use and must be routed around
+  exclusions?: string[];
+  existingSites?: ExistingSite[];
+  // Tiers between each region and its sites, top down. Defaults to one
+  // Territory tier of subRegionsPerRegion blocks; an empty list carves sites
+  // straight from the regions. Region territory lists replace the first tier.
+  levels?: LevelTemplate[];
+  // Every block that holds sites is carved into one pool per tier, sized by
+  // the tier's expected sites times its site block
+  siteTiers?: SiteTier[];
+}
+
+// Site block and capacity of a tier, plan-wide or within one region
+export interface SiteTierCapacity {
+  name: string;
+  sitePrefix: number;
+  sitesCapacity: number;
 }
 
 export interface AllocationResult {
@@ -54,56 +127,261 @@ export interface AllocationResult {
       ratio: number;
       sitesCapacity: number;
       percentage: number;
+      requestedShare: number; // Percent of the regional space the weights (or demand) ask for
+      actualShare: number; // Percent of the regional space the region received
       cidr: string;
       code?: string;
+      sitesNeeded?: number;
+      tiers?: SiteTierCapacity[];
+    }>;
+    exclusions: Array<{
+      cidr: string;
+      percentage: number;
     }>;
   };
   warnings?: string[];
   recommendations?: string[];
+  dualStack?: {
+    ipv6Supernet: string;
+    vlanSize: number;
+  };
+  siteTiers?: Array<SiteTier & SiteTierCapacity>;
+  brownfield?: {
+    pinned: number;
+    rejected: number;
+    sites: Array<
+      ExistingSite & {
+        status: "pinned" | "rejected";
+        issue?: string;
+        territoryCidr?: string;
+      }
+    >;
+  };
 }
 
+// Prefix bounds per address family: VLAN sizes, smallest sensible site block,
+// and the deepest prefix a region or territory may be split down to
+const PREFIX_LIMITS: Record<
+  IPVersion,
+  { minVlan: number; maxVlan: number; minSite: number; maxSplit: number }
+> = {
+  4: { minVlan: 16, maxVlan: 30, minSite: 16, maxSplit: 30 },
+  6: { minVlan: 48, maxVlan: 64, minSite: 32, maxSplit: 64 },
+};
+
 export class HierarchicalAllocator {
   private config: AllocationConfig;
+  private version: IPVersion;
+  private dualStackMapper?: DualStackMapper;
 
   constructor(config: AllocationConfig) {
     this.config = config;
+    this.version = CIDRMath.ipVersion(config.supernet);
     this.validate();
+
+    if (config.dualStack) {
+      this.dualStackMapper = new DualStackMapper(
+        config.supernet,
+        config.dualStack.ipv6Supernet,
+        this.mirrorVlanSize()
+      );
+    }
   }
 
   private validate(): void {
     // Validate supernet
     CIDRMath.parseCIDR(this.config.supernet);
+    const limits = PREFIX_LIMITS[this.version];
 
-    // Validate ratios are powers of 2
+    // Validate ratios are whole-number weights
     for (const region of this.config.regionBiases) {
       const ratio = region.ratio;
-      if (ratio < 1 || !Number.isInteger(Math.log2(ratio))) {
+      if (ratio < 1 || !Number.isInteger(ratio)) {
+        throw new Error(
+          `Region "${region.name}" ratio ${ratio} must be a whole number of at least 1`
+        );
+      }
+    }
+
+    // Validate level templates
+    for (const level of this.config.levels ?? []) {
+      if (!level.name.trim()) {
+        throw new Error("Every hierarchy level needs a name");
+      }
+      const weights = level.weights ?? [level.count ?? 0];
+      if (
+        weights.length === 0 ||
+        weights.some((w) => w < 1 || !Number.isInteger(w))
+      ) {
+        throw new Error(
+          `Level "${level.name}" needs a whole-number block count or weights of at least 1`
+        );
+      }
+    }
+    if (this.levelTemplates().length === 0) {
+      const tiered = this.config.regionBiases.find(
+        (r) => r.territories || r.territorySites
+      );
+      if (tiered) {
         throw new Error(
-          `Region "${region.name}" ratio ${ratio} must be a power of 2`
+          `Region "${tiered.name}" lists territories, but no levels sit below the regions`
         );
       }
     }
 
+    // Validate territory lists
+    for (const region of this.config.regionBiases) {
+      if (!region.territories) continue;
+      if (region.territories.length === 0) {
+        throw new Error(`Region "${region.name}" lists no territories`);
+      }
+      for (const territory of region.territories) {
+        if (!territory.name.trim()) {
+          throw new Error(`Region "${region.name}" has a territory without a name`);
+        }
+        const weight = territory.weight ?? 1;
+        if (weight < 1 || !Number.isInteger(weight)) {
+          throw new Error(
+            `Territory "${territory.name}" weight ${weight} must be a whole number of at least 1`
+          );
+        }
+      }
+    }
+
+    // Validate site demand
+    for (const region of this.config.regionBiases) {
+      const counts = [
+        ...(region.sitesNeeded !== undefined ? [region.sitesNeeded] : []),
+        ...(region.territorySites ?? []),
+      ];
+      if (counts.some((n) => n < 0 || !Number.isInteger(n))) {
+        throw new Error(
+          `Region "${region.name}" site counts must be whole numbers`
+        );
+      }
+      const territoryCount = this.territorySpecs(region).length;
+      if (
+        region.territorySites &&
+        region.territorySites.length !== territoryCount
+      ) {
+        throw new Error(
+          `Region "${region.name}" lists ${region.territorySites.length} territory site counts for ${territoryCount} territories`
+        );
+      }
+    }
+    if (this.siteDemand() && !(this.config.growthMultiplier >= 1)) {
+      throw new Error("Growth multiplier must be at least 1");
+    }
+
     // Validate VLAN size
-    if (this.config.vlanSize < 16 || this.config.vlanSize > 30) {
-      throw new Error("VLAN size must be between /16 and /30");
+    if (
+      this.config.vlanSize < limits.minVlan ||
+      this.config.vlanSize > limits.maxVlan
+    ) {
+      throw new Error(
+        `VLAN size must be between /${limits.minVlan} and /${limits.maxVlan}`
+      );
     }
 
     // Validate VLANs per site
     if (this.config.vlansPerSite < 1 || this.config.vlansPerSite > 256) {
       throw new Error("VLANs per site must be between 1 and 256");
     }
+
+    // Validate site tiers
+    const tiers = this.config.siteTiers ?? [];
+    for (const tier of tiers) {
+      if (!tier.name.trim()) {
+        throw new Error("Every site tier needs a name");
+      }
+      if (tiers.filter((t) => t.name === tier.name).length > 1) {
+        throw new Error(`Site tier "${tier.name}" is listed twice`);
+      }
+      if (tier.vlanSize < limits.minVlan || tier.vlanSize > limits.maxVlan) {
+        throw new Error(
+          `Site tier "${tier.name}" VLAN size must be between /${limits.minVlan} and /${limits.maxVlan}`
+        );
+      }
+      if (tier.vlansPerSite < 1 || tier.vlansPerSite > 256) {
+        throw new Error(
+          `Site tier "${tier.name}" VLANs per site must be between 1 and 256`
+        );
+      }
+      if (tier.sitesNeeded < 1 || !Number.isInteger(tier.sitesNeeded)) {
+        throw new Error(
+          `Site tier "${tier.name}" needs a whole number of expected sites, at least 1`
+        );
+      }
+      this.calculateSitePrefix(tier.vlansPerSite, tier.vlanSize);
+    }
+    if (tiers.length > 0 && this.siteDemand()) {
+      throw new Error(
+        "Site tiers carry their own expected sites - size regions by weights when using them"
+      );
+    }
+
+    // Validate exclusions
+    this.getExclusionRanges();
   }
 
-  private calculateSitePrefix(): number {
-    const { vlansPerSite, vlanSize } = this.config;
+  // Excluded blocks as sorted, non-overlapping address ranges inside the supernet
+  private getExclusionRanges(): Array<{
+    cidr: string;
+    prefix: number;
+    start: bigint;
+    end: bigint;
+  }> {
+    const { ip: supIP, prefix: supPrefix } = CIDRMath.parseCIDR(
+      this.config.supernet
+    );
+    const supStart = CIDRMath.ipToNumber(
+      CIDRMath.getNetworkAddress(supIP, supPrefix)
+    );
+    const supEnd =
+      supStart + CIDRMath.subnetAddressCount(supPrefix, this.version) - BigInt(1);
+
+    const ranges = (this.config.exclusions ?? []).map((exclusion) => {
+      const { ip, prefix, version } = CIDRMath.parseCIDR(exclusion);
+      if (version !== this.version) {
+        throw new Error(
+          `Exclusion ${exclusion} is not in the same address family as ${this.config.supernet}`
+        );
+      }
+
+      const network = CIDRMath.getNetworkAddress(ip, prefix);
+      const start = CIDRMath.ipToNumber(network);
+      const end =
+        start + CIDRMath.subnetAddressCount(prefix, this.version) - BigInt(1);
+
+      if (start < supStart || end > supEnd) {
+        throw new Error(
+          `Exclusion ${exclusion} is outside the supernet ${this.config.supernet}`
+        );
+      }
+
+      return { cidr: `${network}/${prefix}`, prefix, start, end };
+    });
+
+    const [conflict] = PrefixSet.findConflicts(ranges.map((r) => r.cidr));
+    if (conflict) {
+      throw new Error(`Exclusion ${conflict.b} overlaps ${conflict.a}`);
+    }
+
+    return ranges.sort((a, b) =>
+      a.start < b.start ? -1 : a.start > b.start ? 1 : 0
+    );
+  }
 
+  private calculateSitePrefix(
+    vlansPerSite = this.config.vlansPerSite,
+    vlanSize = this.config.vlanSize
+  ): number {
     // Calculate required bits for VLANs
     const bitsNeeded = Math.ceil(Math.log2(vlansPerSite));
     const sitePrefix = vlanSize - bitsNeeded;
 
     // Ensure we don't go below reasonable limits
-    if (sitePrefix < 16) {
+    if (sitePrefix < PREFIX_LIMITS[this.version].minSite) {
       throw new Error(
         `Cannot fit ${vlansPerSite} VLANs of size /${vlanSize} in any reasonable site prefix`
       );
@@ -112,7 +390,7 @@ export class HierarchicalAllocator {
     return sitePrefix;
   }
 
-  private calculateRegionalPrefixes(): Array<{
+  private calculateRegionalPrefixes(shrinkBits = 0): Array<{
     name: string;
     prefix: number;
     ratio: number;
@@ -121,77 +399,308 @@ export class HierarchicalAllocator {
     const { supernet, regionBiases } = this.config;
     const { prefix: supPrefix } = CIDRMath.parseCIDR(supernet);
 
-    const totalRatio = regionBiases.reduce((sum, r) => sum + r.ratio, 0);
-    const bitsNeeded = Math.ceil(Math.log2(totalRatio));
+    const { bitsNeeded, units } = HierarchicalAllocator.weightUnits(
+      regionBiases.map((region) => region.ratio)
+    );
+
+    return regionBiases.map((region, i) => ({
+      name: region.name,
+      prefix: supPrefix + bitsNeeded + shrinkBits - Math.log2(units[i]),
+      ratio: region.ratio,
+      code: region.code,
+    }));
+  }
+
+  // A parent holds 2^bitsNeeded units and each child is a single block, so
+  // each weight becomes the nearest power of two of units. Rounding up can
+  // overfill the parent: halve the most oversized child until everything fits.
+  private static weightUnits(weights: number[]): {
+    bitsNeeded: number;
+    units: number[];
+  } {
+    const bitsNeeded = Math.ceil(
+      Math.log2(weights.reduce((sum, w) => sum + w, 0))
+    );
+    const units = weights.map((weight) => {
+      const lower = Math.pow(2, Math.floor(Math.log2(weight)));
+      return weight > lower * Math.SQRT2 ? lower * 2 : lower;
+    });
+    const capacity = Math.pow(2, bitsNeeded);
+    while (units.reduce((sum, u) => sum + u, 0) > capacity) {
+      const oversized = units.reduce(
+        (worst, u, i) =>
+          u / weights[i] > units[worst] / weights[worst] ? i : worst,
+        0
+      );
+      units[oversized] /= 2;
+    }
+
+    return { bitsNeeded, units };
+  }
+
+  // Site block of every site tier, in configured order
+  private tierPrefixes(): Array<{ tier: SiteTier; sitePrefix: number }> {
+    return (this.config.siteTiers ?? []).map((tier) => ({
+      tier,
+      sitePrefix: this.calculateSitePrefix(tier.vlansPerSite, tier.vlanSize),
+    }));
+  }
+
+  // Dual-stack mirrors one /64 per VLAN of the smallest VLAN size in use, so
+  // every tier's VLANs get their own /64s
+  private mirrorVlanSize(): number {
+    return Math.max(
+      this.config.vlanSize,
+      ...(this.config.siteTiers ?? []).map((tier) => tier.vlanSize)
+    );
+  }
+
+  // Tiers below the regions; a single Territory tier unless configured
+  private levelTemplates(): LevelTemplate[] {
+    return (
+      this.config.levels ?? [
+        { name: "Territory", count: this.config.subRegionsPerRegion },
+      ]
+    );
+  }
+
+  // Blocks a level template makes in one parent block
+  private levelSpecs(level: LevelTemplate, parent: string): TerritorySpec[] {
+    const weights =
+      level.weights ?? Array.from({ length: level.count ?? 0 }, () => 1);
+    return weights.map((weight, i) => ({
+      name: (level.naming ?? "{parent} {name} {n}")
+        .replace(/\{parent\}/g, parent)
+        .replace(/\{name\}/g, level.name)
+        .replace(/\{n\}/g, String(i + 1)),
+      weight: level.weights ? weight : undefined,
+    }));
+  }
+
+  // The region's own territory list, or the first tier of the level templates
+  private territorySpecs(region: RegionBias): TerritorySpec[] {
+    const [first] = this.levelTemplates();
+    return region.territories ?? (first ? this.levelSpecs(first, region.name) : []);
+  }
+
+  // Prefix bits the tiers below the first need, so demand-sized territories
+  // never split below a single site slot
+  private deeperLevelBits(): number {
+    return this.levelTemplates()
+      .slice(1)
+      .reduce(
+        (sum, level) =>
+          sum +
+          Math.ceil(
+            Math.log2(
+              level.weights?.reduce((total, w) => total + w, 0) ??
+                level.count ??
+                1
+            )
+          ),
+        0
+      );
+  }
+
+  // Sites each territory of each region must hold before growth, or undefined
+  // when no region declares a count and the plan is sized by weights alone.
+  // Regions without a count share what is left of totalSitesNeeded by ratio.
+  private siteDemand(): number[][] | undefined {
+    const { regionBiases, totalSitesNeeded } = this.config;
+    const declared = (region: RegionBias) =>
+      region.territorySites
+        ? region.territorySites.reduce((sum, n) => sum + n, 0)
+        : region.sitesNeeded;
+    if (regionBiases.every((region) => declared(region) === undefined)) {
+      return undefined;
+    }
+
+    const undeclared = regionBiases.filter((r) => declared(r) === undefined);
+    const undeclaredRatio = undeclared.reduce((sum, r) => sum + r.ratio, 0);
+    const remaining = Math.max(
+      0,
+      totalSitesNeeded -
+        regionBiases.reduce((sum, r) => sum + (declared(r) ?? 0), 0)
+    );
 
     return regionBiases.map((region) => {
-      const bitsForRegion = Math.log2(region.ratio);
-      const regionPrefix = supPrefix + bitsNeeded - bitsForRegion;
+      if (region.territorySites) return region.territorySites;
+      const sites =
+        declared(region) ??
+        Math.ceil((remaining * region.ratio) / undeclaredRatio);
+      // Without tiers the region itself is the only block holding sites
+      const count = Math.max(1, this.territorySpecs(region).length);
+      return Array.from(
+        { length: count },
+        (_, i) => Math.floor(sites / count) + (i < sites % count ? 1 : 0)
+      );
+    });
+  }
 
+  // Smallest territory blocks that hold their demand times growthMultiplier,
+  // and the smallest region block the territories pack into
+  private demandPrefixes(
+    demand: number[][],
+    sitePrefix: number
+  ): Array<{ region: number; territories: number[] }> {
+    const deeperBits = this.deeperLevelBits();
+    const slotBits = (sites: number) =>
+      Math.max(
+        deeperBits,
+        Math.ceil(
+          Math.log2(Math.max(1, Math.ceil(sites * this.config.growthMultiplier)))
+        )
+      );
+
+    return demand.map((territorySites) => {
+      const bits = territorySites.map(slotBits);
+      const slots = bits.reduce((sum, b) => sum + Math.pow(2, b), 0);
       return {
-        name: region.name,
-        prefix: Math.floor(regionPrefix),
-        ratio: region.ratio,
-        code: region.code,
+        region: sitePrefix - Math.ceil(Math.log2(slots)),
+        territories: bits.map((b) => sitePrefix - b),
       };
     });
   }
 
+  // Territories of a region, sized by their weights unless demand already
+  // fixed the prefixes. Blocks are packed largest first so they never leave
+  // gaps; children keep their configured order and addresses follow the packing.
+  // Space the rounded blocks do not fill follows as Unallocated siblings.
   private splitCIDR(
-    parentCIDR: string,
-    childCount: number,
-    namePrefix: string,
-    parentId: string
+    region: HierarchyLevel,
+    territories: TerritorySpec[],
+    prefixes?: number[]
   ): HierarchyLevel[] {
-    const { ip: parentIP, prefix: parentPrefix } =
-      CIDRMath.parseCIDR(parentCIDR);
-    const bitsNeeded = Math.ceil(Math.log2(childCount));
-    const childPrefix = parentPrefix + bitsNeeded;
+    if (!prefixes) {
+      const { bitsNeeded, units } = HierarchicalAllocator.weightUnits(
+        territories.map((t) => t.weight ?? 1)
+      );
+      prefixes = units.map((u) => region.prefix + bitsNeeded - Math.log2(u));
+    }
 
-    if (childPrefix > 30) {
+    const { maxSplit } = PREFIX_LIMITS[this.version];
+    if (Math.max(...prefixes) > maxSplit) {
       throw new Error(
-        `Cannot split ${parentCIDR} into ${childCount} subnets - would exceed /30`
+        `Cannot split ${region.cidr} into ${territories.length} subnets - would exceed /${maxSplit}`
       );
     }
 
-    const childSize = CIDRMath.subnetAddressCount(childPrefix);
+    const order = prefixes
+      .map((prefix, i) => ({ prefix, i }))
+      .sort((a, b) => a.prefix - b.prefix || a.i - b.i);
     const children: HierarchyLevel[] = [];
-    const parentBase = CIDRMath.ipToNumber(parentIP);
-
-    for (let i = 0; i < childCount; i++) {
-      const childNetwork = CIDRMath.numberToIp(
-        parentBase + BigInt(i) * childSize
-      );
-      const broadcast = CIDRMath.getBroadcastAddress(childNetwork, childPrefix);
-      const { first, last } = CIDRMath.getHostRange(childNetwork, childPrefix);
-      const totalAddresses = CIDRMath.subnetAddressCount(childPrefix);
-      const usableHosts = CIDRMath.usableHosts(childPrefix);
-
-      children.push({
-        id: `${parentId}-${i}`,
-        name: `${namePrefix} ${i + 1}`,
-        cidr: `${childNetwork}/${childPrefix}`,
-        network: childNetwork,
-        broadcast,
+    let next = CIDRMath.ipToNumber(region.network);
+
+    for (const { prefix, i } of order) {
+      const network = CIDRMath.numberToIp(next, this.version);
+      const { first, last } = CIDRMath.getHostRange(network, prefix);
+      const totalAddresses = CIDRMath.subnetAddressCount(prefix, this.version);
+      const { code, weight } = territories[i];
+
+      children[i] = {
+        id: `${region.id}-${i}`,
+        name: territories[i].name,
+        cidr: `${network}/${prefix}`,
+        network,
+        broadcast: CIDRMath.getBroadcastAddress(network, prefix),
         addressRange: `${first} - ${last}`,
-        prefix: childPrefix,
+        prefix,
         totalAddresses,
-        usableHosts,
+        usableHosts: CIDRMath.usableHosts(prefix, this.version),
+        metadata: code || weight ? { code, ratio: weight } : undefined,
+      };
+      next += totalAddresses;
+    }
+
+    const end = CIDRMath.ipToNumber(region.broadcast);
+    if (next <= end) {
+      CIDRMath.numericRangeToCIDRs(next, end, this.version).forEach((cidr, k) => {
+        const { ip: network, prefix } = CIDRMath.parseCIDR(cidr);
+        const { first, last } = CIDRMath.getHostRange(network, prefix);
+        children.push({
+          id: `${region.id}-unallocated-${k}`,
+          name: "Unallocated",
+          cidr,
+          network,
+          broadcast: CIDRMath.getBroadcastAddress(network, prefix),
+          addressRange: `${first} - ${last}`,
+          prefix,
+          totalAddresses: CIDRMath.subnetAddressCount(prefix, this.version),
+          usableHosts: CIDRMath.usableHosts(prefix, this.version),
+          metadata: { ratio: 0, unallocated: true },
+        });
       });
     }
 
     return children;
   }
 
+  // Best-fit packing: each region, in order, takes the smallest free gap
+  // (around exclusions and earlier regions) that holds it at an aligned start,
+  // lowest address first on ties. Returns null when a region does not fit.
+  private placeRegions(
+    regionalPrefixes: Array<{ prefix: number }>,
+    exclusions: Array<{ start: bigint; end: bigint }>,
+    supernetBase: bigint,
+    supernetBroadcastNum: bigint
+  ): bigint[] | null {
+    let gaps: Array<{ start: bigint; end: bigint }> = [];
+    let cursor = supernetBase;
+    for (const exclusion of exclusions) {
+      if (exclusion.start > cursor) {
+        gaps.push({ start: cursor, end: exclusion.start - BigInt(1) });
+      }
+      cursor = exclusion.end + BigInt(1);
+    }
+    if (cursor <= supernetBroadcastNum) {
+      gaps.push({ start: cursor, end: supernetBroadcastNum });
+    }
+
+    const starts: bigint[] = [];
+    for (const regionInfo of regionalPrefixes) {
+      const regionSize = CIDRMath.subnetAddressCount(
+        regionInfo.prefix,
+        this.version
+      );
+      const alignUp = (num: bigint) => {
+        const remainder = num % regionSize;
+        return remainder === BigInt(0) ? num : num - remainder + regionSize;
+      };
+
+      let best: { gap: number; start: bigint } | undefined;
+      for (let i = 0; i < gaps.length; i++) {
+        const start = alignUp(gaps[i].start);
+        if (start + regionSize - BigInt(1) > gaps[i].end) continue;
+        const size = gaps[i].end - gaps[i].start;
+        if (!best || size < gaps[best.gap].end - gaps[best.gap].start) {
+          best = { gap: i, start };
+        }
+      }
+      if (!best) return null;
+
+      const gap = gaps[best.gap];
+      const end = best.start + regionSize - BigInt(1);
+      gaps = [
+        ...gaps.slice(0, best.gap),
+        ...(best.start > gap.start ? [{ start: gap.start, end: best.start - BigInt(1) }] : []),
+        ...(end < gap.end ? [{ start: end + BigInt(1), end: gap.end }] : []),
+        ...gaps.slice(best.gap + 1),
+      ];
+      starts.push(best.start);
+    }
+
+    return starts;
+  }
+
   allocate(): AllocationResult {
-    const { supernet, regionBiases, subRegionsPerRegion } = this.config;
+    const { supernet, regionBiases } = this.config;
     const { prefix: supernetPrefix } = CIDRMath.parseCIDR(supernet);
 
     const sitePrefix = this.calculateSitePrefix();
     const warnings: string[] = [];
     const recommendations: string[] = [];
 
-    const regionalPrefixes = this.calculateRegionalPrefixes();
+    const exclusions = this.getExclusionRanges();
 
     // Level 1: Supernet
     const supernetNetwork = CIDRMath.getNetworkAddress(
@@ -206,7 +715,10 @@ export class HierarchicalAllocator {
       supernetNetwork,
       supernetPrefix
     );
-    const supernetTotal = CIDRMath.subnetAddressCount(supernetPrefix);
+    const supernetTotal = CIDRMath.subnetAddressCount(
+      supernetPrefix,
+      this.version
+    );
 
     const hierarchy: HierarchyLevel = {
       id: "root",
@@ -217,7 +729,7 @@ export class HierarchicalAllocator {
       addressRange: `${supernetFirst} - ${supernetLast}`,
       prefix: supernetPrefix,
       totalAddresses: supernetTotal,
-      usableHosts: CIDRMath.usableHosts(supernetPrefix),
+      usableHosts: CIDRMath.usableHosts(supernetPrefix, this.version),
       children: [],
     };
 
@@ -225,27 +737,67 @@ export class HierarchicalAllocator {
     const regions: HierarchyLevel[] = [];
     const supernetBase = CIDRMath.ipToNumber(supernetNetwork);
     const supernetBroadcastNum = CIDRMath.ipToNumber(supernetBroadcast);
-    let currentIpNum = supernetBase;
 
-    for (let i = 0; i < regionBiases.length; i++) {
-      const regionInfo = regionalPrefixes[i];
-      const regionSize = CIDRMath.subnetAddressCount(regionInfo.prefix);
+    // Demand sizes regions exactly; weights halve every region until they fit
+    // around exclusions
+    const demand = this.siteDemand();
+    const sizing = demand && this.demandPrefixes(demand, sitePrefix);
+    let shrinkBits = 0;
+    let regionalPrefixes = sizing
+      ? regionBiases.map((region, i) => ({
+          name: region.name,
+          prefix: sizing[i].region,
+          ratio: region.ratio,
+          code: region.code,
+        }))
+      : this.calculateRegionalPrefixes();
+    let regionStarts = this.placeRegions(
+      regionalPrefixes,
+      exclusions,
+      supernetBase,
+      supernetBroadcastNum
+    );
+    while (
+      !regionStarts &&
+      !sizing &&
+      exclusions.length > 0 &&
+      Math.max(...regionalPrefixes.map((r) => r.prefix)) < sitePrefix
+    ) {
+      shrinkBits++;
+      regionalPrefixes = this.calculateRegionalPrefixes(shrinkBits);
+      regionStarts = this.placeRegions(
+        regionalPrefixes,
+        exclusions,
+        supernetBase,
+        supernetBroadcastNum
+      );
+    }
 
-      // Align the region start to the next valid boundary for its prefix so
-      // that regions are strictly non-overlapping within the supernet.
-      let regionNetworkNum = currentIpNum;
-      const remainder = regionNetworkNum % regionSize;
-      if (remainder !== BigInt(0)) {
-        regionNetworkNum = regionNetworkNum - remainder + regionSize;
-      }
+    if (!regionStarts) {
+      throw new Error(
+        sizing
+          ? `Regions sized for the site demand (${this.config.growthMultiplier}x growth) exceed the ${
+              exclusions.length > 0 ? "free " : ""
+            }supernet capacity - enlarge the supernet or lower the demand or growth multiplier`
+          : exclusions.length > 0
+          ? "Region allocation exceeds free supernet capacity - adjust supernet, region ratios or exclusions"
+          : "Region allocation exceeds supernet capacity - adjust supernet or region ratios"
+      );
+    }
 
-      if (regionNetworkNum + regionSize - BigInt(1) > supernetBroadcastNum) {
-        throw new Error(
-          "Region allocation exceeds supernet capacity - adjust supernet or region ratios"
-        );
-      }
+    if (shrinkBits > 0) {
+      warnings.push(
+        `Regions reduced by ${shrinkBits} prefix bit${
+          shrinkBits > 1 ? "s" : ""
+        } to fit around excluded ranges`
+      );
+    }
+
+    for (let i = 0; i < regionBiases.length; i++) {
+      const regionInfo = regionalPrefixes[i];
+      const regionNetworkNum = regionStarts[i];
 
-      const regionNetwork = CIDRMath.numberToIp(regionNetworkNum);
+      const regionNetwork = CIDRMath.numberToIp(regionNetworkNum, this.version);
       const broadcast = CIDRMath.getBroadcastAddress(
         regionNetwork,
         regionInfo.prefix
@@ -254,7 +806,10 @@ export class HierarchicalAllocator {
         regionNetwork,
         regionInfo.prefix
       );
-      const totalAddresses = CIDRMath.subnetAddressCount(regionInfo.prefix);
+      const totalAddresses = CIDRMath.subnetAddressCount(
+        regionInfo.prefix,
+        this.version
+      );
 
       regions.push({
         id: `region-${i}`,
@@ -265,35 +820,33 @@ export class HierarchicalAllocator {
         addressRange: `${first} - ${last}`,
         prefix: regionInfo.prefix,
         totalAddresses,
-        usableHosts: CIDRMath.usableHosts(regionInfo.prefix),
+        usableHosts: CIDRMath.usableHosts(regionInfo.prefix, this.version),
         metadata: {
           ratio: regionInfo.ratio,
           code: regionInfo.code,
+          sitesNeeded: demand?.[i].reduce((sum, n) => sum + n, 0),
         },
       });
-
-      currentIpNum = regionNetworkNum + regionSize;
     }
 
     hierarchy.children = regions;
 
-    // Check for unallocated space
-    const totalAvailable = CIDRMath.subnetAddressCount(supernetPrefix);
-    const totalAllocated = currentIpNum - supernetBase;
-
-    if (totalAllocated < totalAvailable) {
-      const unallocatedSize = totalAvailable - totalAllocated;
-      const unallocatedNetworkNum = currentIpNum;
-      const unallocatedNetwork = CIDRMath.numberToIp(unallocatedNetworkNum);
-
-      let unallocPrefix = supernetPrefix;
-      while (unallocPrefix <= 30) {
-        const size = CIDRMath.subnetAddressCount(unallocPrefix);
-        const remainder = unallocatedNetworkNum % size;
-        if (size <= unallocatedSize && remainder === BigInt(0)) break;
-        unallocPrefix++;
-      }
+    // Check for unallocated space: whatever regions and exclusions leave free
+    const totalAvailable = CIDRMath.subnetAddressCount(
+      supernetPrefix,
+      this.version
+    );
+    const freeSpace = PrefixSet.from([
+      `${supernetNetwork}/${supernetPrefix}`,
+    ]).difference(
+      PrefixSet.from([
+        ...regions.map((region) => region.cidr),
+        ...exclusions.map((exclusion) => exclusion.cidr),
+      ])
+    );
+    const unallocatedSize = freeSpace.size(this.version);
 
+    if (unallocatedSize > BigInt(0)) {
       warnings.push(
         `${CIDRMath.formatSize(unallocatedSize)} addresses unallocated (${(
           (Number(unallocatedSize) / Number(totalAvailable)) *
@@ -301,64 +854,120 @@ export class HierarchicalAllocator {
         ).toFixed(1)}%)`
       );
 
-      const broadcast = CIDRMath.getBroadcastAddress(
-        unallocatedNetwork,
-        unallocPrefix
-      );
-      const { first, last } = CIDRMath.getHostRange(
-        unallocatedNetwork,
-        unallocPrefix
-      );
+      freeSpace.toCIDRs().forEach((cidr, i) => {
+        const { ip: unallocatedNetwork, prefix: unallocPrefix } =
+          CIDRMath.parseCIDR(cidr);
+        const broadcast = CIDRMath.getBroadcastAddress(
+          unallocatedNetwork,
+          unallocPrefix
+        );
+        const { first, last } = CIDRMath.getHostRange(
+          unallocatedNetwork,
+          unallocPrefix
+        );
+
+        regions.push({
+          id: `unallocated-${i}`,
+          name: "Unallocated",
+          cidr,
+          network: unallocatedNetwork,
+          broadcast,
+          addressRange: `${first} - ${last}`,
+          prefix: unallocPrefix,
+          totalAddresses: CIDRMath.subnetAddressCount(
+            unallocPrefix,
+            this.version
+          ),
+          usableHosts: CIDRMath.usableHosts(unallocPrefix, this.version),
+          metadata: { ratio: 0, unallocated: true },
+        });
+      });
+    }
+
+    // Excluded blocks are shown in the hierarchy but never carved into sites
+    exclusions.forEach((exclusion, i) => {
+      const network = CIDRMath.numberToIp(exclusion.start, this.version);
+      const { first, last } = CIDRMath.getHostRange(network, exclusion.prefix);
 
       regions.push({
-        id: "unallocated",
-        name: "Unallocated",
-        cidr: `${unallocatedNetwork}/${unallocPrefix}`,
-        network: unallocatedNetwork,
-        broadcast,
+        id: `excluded-${i}`,
+        name: "Excluded",
+        cidr: exclusion.cidr,
+        network,
+        broadcast: CIDRMath.getBroadcastAddress(network, exclusion.prefix),
         addressRange: `${first} - ${last}`,
-        prefix: unallocPrefix,
-        totalAddresses: unallocatedSize,
-        usableHosts: CIDRMath.usableHosts(unallocPrefix),
-        metadata: { ratio: 0 },
+        prefix: exclusion.prefix,
+        totalAddresses: exclusion.end - exclusion.start + BigInt(1),
+        usableHosts: CIDRMath.usableHosts(exclusion.prefix, this.version),
+        metadata: { ratio: 0, excluded: true },
       });
-    }
+    });
 
-    // Level 3: Sub-regions
+    // Level 3 and below: the tiers of the level templates
     let totalSitesSupported = 0;
-    const regionBreakdown: Array<{
-      name: string;
-      ratio: number;
-      sitesCapacity: number;
-      percentage: number;
-      cidr: string;
-    }> = [];
+    const regionBreakdown: AllocationResult["summary"]["regionBreakdown"] = [];
+    const totalRatio = regionBiases.reduce((sum, r) => sum + r.ratio, 0);
+    const regionalSpace = regionalPrefixes.reduce(
+      (sum, r) => sum + CIDRMath.subnetAddressCount(r.prefix, this.version),
+      BigInt(0)
+    );
 
-    for (const region of regions) {
-      if (region.name === "Unallocated") {
+    regions.forEach((region, i) => {
+      if (region.metadata?.unallocated || region.metadata?.excluded) {
         region.children = [];
-        continue;
+        return;
       }
 
-      region.children = this.splitCIDR(
-        region.cidr,
-        subRegionsPerRegion,
-        `${region.name} Territory`,
-        region.id
+      this.splitLevels(
+        region,
+        0,
+        this.territorySpecs(regionBiases[i]),
+        sizing?.[i].territories
       );
+    });
 
-      let regionSitesTotal = 0;
-      for (const subRegion of region.children) {
-        const sitesPerSubRegion = Number(
-          CIDRMath.subnetCount(subRegion.prefix, sitePrefix)
-        );
+    const unallocatedInside = regions
+      .filter((r) => !r.metadata?.unallocated && !r.metadata?.excluded)
+      .reduce((sum, region) => sum + this.unallocatedBelow(region), BigInt(0));
+    if (unallocatedInside > BigInt(0)) {
+      warnings.push(
+        `${CIDRMath.formatSize(unallocatedInside)} addresses inside regions unallocated (${(
+          (Number(unallocatedInside) / Number(regionalSpace)) *
+          100
+        ).toFixed(1)}% of the regions), where blocks round to powers of two`
+      );
+    }
 
-        subRegion.metadata = {
-          sitesCapacity: sitesPerSubRegion,
-          sitePrefix: sitePrefix,
-        };
+    // Brownfield: pin already-numbered sites before counting free capacity
+    const brownfield = this.config.existingSites?.length
+      ? this.pinExistingSites(regions, exclusions, sitePrefix, warnings)
+      : undefined;
+
+    const tierPrefixes = this.tierPrefixes();
+    const totalSitesNeeded = demand
+      ? demand.flat().reduce((sum, n) => sum + n, 0)
+      : tierPrefixes.length > 0
+      ? tierPrefixes.reduce((sum, { tier }) => sum + tier.sitesNeeded, 0)
+      : this.config.totalSitesNeeded;
+    const tierCapacity = (level: HierarchyLevel): SiteTierCapacity[] =>
+      tierPrefixes.map(({ tier, sitePrefix }) => ({
+        name: tier.name,
+        sitePrefix,
+        sitesCapacity: this.pools(level)
+          .filter((pool) => pool.metadata?.siteTier === tier.name)
+          .reduce((sum, pool) => sum + (pool.metadata?.sitesCapacity ?? 0), 0),
+      }));
+
+    regions.forEach((region, i) => {
+      if (region.metadata?.unallocated || region.metadata?.excluded) {
+        return;
+      }
 
-        regionSitesTotal += sitesPerSubRegion;
+      const regionSitesTotal = this.assignCapacity(region, sitePrefix);
+      if (demand) {
+        this.tiers(region).forEach((territory, j) => {
+          territory.metadata = { ...territory.metadata, sitesNeeded: demand[i][j] };
+        });
       }
 
       totalSitesSupported += regionSitesTotal;
@@ -369,8 +978,47 @@ export class HierarchicalAllocator {
         sitesCapacity: regionSitesTotal,
         percentage:
           (Number(region.totalAddresses) / Number(totalAvailable)) * 100,
+        requestedShare: demand
+          ? ((region.metadata?.sitesNeeded ?? 0) / (totalSitesNeeded || 1)) * 100
+          : ((region.metadata?.ratio || 0) / totalRatio) * 100,
+        actualShare:
+          (Number(region.totalAddresses) / Number(regionalSpace)) * 100,
         cidr: region.cidr,
+        sitesNeeded: region.metadata?.sitesNeeded,
+        tiers: tierPrefixes.length > 0 ? tierCapacity(region) : undefined,
       });
+    });
+
+    // Plan-wide capacity per site tier, against the tier's expected sites
+    const siteTiers =
+      tierPrefixes.length > 0
+        ? tierPrefixes.map(({ tier, sitePrefix }, t) => ({
+            ...tier,
+            sitePrefix,
+            sitesCapacity: regionBreakdown.reduce(
+              (sum, region) => sum + (region.tiers?.[t].sitesCapacity ?? 0),
+              0
+            ),
+          }))
+        : undefined;
+    siteTiers?.forEach((tier) => {
+      if (tier.sitesCapacity < tier.sitesNeeded) {
+        warnings.push(
+          `Site tier "${tier.name}" holds ${tier.sitesCapacity.toLocaleString()} /${tier.sitePrefix} sites, fewer than the ${tier.sitesNeeded.toLocaleString()} expected`
+        );
+      }
+    });
+
+    // Single-block regions only approximate weights that are not powers of two
+    const deviation = Math.max(
+      ...regionBreakdown.map((r) => Math.abs(r.actualShare - r.requestedShare))
+    );
+    if (!demand && deviation >= 1) {
+      recommendations.push(
+        `Region split is within ${deviation.toFixed(1)} points of the requested weights (${regionBreakdown
+          .map((r) => `${r.name} ${r.actualShare.toFixed(1)}% vs ${r.requestedShare.toFixed(1)}%`)
+          .join(", ")}); weights in power-of-two proportions split exactly`
+      );
     }
 
     const totalSubnetsPerSite = Number(
@@ -379,7 +1027,7 @@ export class HierarchicalAllocator {
 
     // Calculate utilization
     const utilizationPercentage =
-      (this.config.totalSitesNeeded / totalSitesSupported) * 100;
+      (totalSitesNeeded / totalSitesSupported) * 100;
 
     // Add recommendations
     if (utilizationPercentage > 80) {
@@ -388,12 +1036,15 @@ export class HierarchicalAllocator {
       );
     }
 
-    if (utilizationPercentage < 20) {
+    // Sparse allocation is the norm in IPv6, so only flag waste for IPv4
+    if (utilizationPercentage < 20 && this.version === 4) {
       recommendations.push(
         "Low utilization (<20%) - consider smaller supernet to reduce waste"
       );
     }
 
+    this.dualStackMapper?.annotate(hierarchy);
+
     return {
       hierarchy,
       sitePrefixRecommendation: sitePrefix,
@@ -402,16 +1053,360 @@ export class HierarchicalAllocator {
       utilizationPercentage,
       summary: {
         totalRegions: regionBiases.length,
-        totalSubRegions: regionBiases.length * subRegionsPerRegion,
+        totalSubRegions: regions
+          .filter((r) => !r.metadata?.unallocated && !r.metadata?.excluded)
+          .reduce((sum, region) => sum + this.pools(region).length, 0),
         totalSitesSupported,
         vlansPerSite: this.config.vlansPerSite,
         regionBreakdown,
+        exclusions: exclusions.map((exclusion) => ({
+          cidr: exclusion.cidr,
+          percentage:
+            (Number(exclusion.end - exclusion.start + BigInt(1)) /
+              Number(totalAvailable)) *
+            100,
+        })),
       },
       warnings: warnings.length > 0 ? warnings : undefined,
       recommendations: recommendations.length > 0 ? recommendations : undefined,
+      dualStack: this.config.dualStack && {
+        ipv6Supernet: this.config.dualStack.ipv6Supernet,
+        vlanSize: this.mirrorVlanSize(),
+      },
+      siteTiers,
+      brownfield,
     };
   }
 
+  // Adopt existing sites into the territory that contains them. Sites that
+  // break the hierarchy are rejected and reported instead of being pinned.
+  private pinExistingSites(
+    regions: HierarchyLevel[],
+    exclusions: Array<{ cidr: string; start: bigint; end: bigint }>,
+    sitePrefix: number,
+    warnings: string[]
+  ): NonNullable<AllocationResult["brownfield"]> {
+    const allocatable = regions.filter(
+      (r) => !r.metadata?.unallocated && !r.metadata?.excluded
+    );
+    const rangeOf = (level: HierarchyLevel) => {
+      const start = CIDRMath.ipToNumber(level.network);
+      return { start, end: start + level.totalAddresses - BigInt(1) };
+    };
+    const pinnedRanges: Array<{ name: string; start: bigint; end: bigint }> = [];
+    const sites: NonNullable<AllocationResult["brownfield"]>["sites"] = [];
+
+    for (const site of this.config.existingSites ?? []) {
+      const reject = (issue: string) => {
+        sites.push({ ...site, status: "rejected", issue });
+        warnings.push(
+          `Existing site "${site.name}" (${site.cidr}) rejected: ${issue}`
+        );
+      };
+
+      let parsed: ReturnType<typeof CIDRMath.parseCIDR>;
+      try {
+        parsed = CIDRMath.parseCIDR(site.cidr);
+      } catch {
+        reject("invalid CIDR notation");
+        continue;
+      }
+      if (parsed.version !== this.version) {
+        reject(`not in the same address family as ${this.config.supernet}`);
+        continue;
+      }
+
+      const network = CIDRMath.getNetworkAddress(parsed.ip, parsed.prefix);
+      if (network !== CIDRMath.numberToIp(CIDRMath.ipToNumber(parsed.ip), this.version)) {
+        reject(`not aligned to a /${parsed.prefix} boundary`);
+        continue;
+      }
+      const start = CIDRMath.ipToNumber(network);
+      const end =
+        start +
+        CIDRMath.subnetAddressCount(parsed.prefix, this.version) -
+        BigInt(1);
+      const contains = (level: HierarchyLevel) => {
+        const range = rangeOf(level);
+        return range.start <= start && range.end >= end;
+      };
+
+      const declaredRegion = allocatable.find(
+        (r) =>
+          r.name.toLowerCase() === site.region.toLowerCase() ||
+          r.metadata?.code?.toLowerCase() === site.region.toLowerCase()
+      );
+      if (!declaredRegion) {
+        reject(`unknown region "${site.region}"`);
+        continue;
+      }
+
+      const excluded = exclusions.find((ex) => ex.start <= end && ex.end >= start);
+      if (excluded) {
+        reject(`overlaps excluded range ${excluded.cidr}`);
+        continue;
+      }
+
+      if (!contains(declaredRegion)) {
+        const actual = allocatable.find(contains);
+        reject(
+          actual
+            ? `lies in ${actual.name}, not ${declaredRegion.name}`
+            : `lies outside ${declaredRegion.name} (${declaredRegion.cidr})`
+        );
+        continue;
+      }
+
+      // Descend tier by tier to the block the site is carved from
+      const path: HierarchyLevel[] = [];
+      let territory = declaredRegion;
+      let straddled: HierarchyLevel | undefined;
+      let unallocated: HierarchyLevel | undefined;
+      while (this.tiers(territory).length > 0) {
+        const next = this.tiers(territory).find(contains);
+        if (!next) {
+          unallocated = territory.children?.find((c) => c.metadata?.unallocated && contains(c));
+          straddled = territory;
+          break;
+        }
+        path.push(next);
+        territory = next;
+      }
+      if (unallocated) {
+        reject(`lies in unallocated space of ${territory.name} (${unallocated.cidr})`);
+        continue;
+      }
+      if (straddled) {
+        const [block] = this.tiers(straddled);
+        const level = block.metadata?.siteTier
+          ? "site tier"
+          : block.metadata?.level ?? "Territory";
+        reject(`straddles ${level.toLowerCase()} boundaries in ${straddled.name}`);
+        continue;
+      }
+
+      if (site.territory) {
+        const wanted = site.territory.toLowerCase();
+        const matches =
+          path.some(
+            (tier) =>
+              tier.name.toLowerCase() === wanted ||
+              tier.metadata?.code?.toLowerCase() === wanted
+          ) ||
+          (path.length > 0 &&
+            wanted.replace(/^t/, "") ===
+              String(this.tiers(declaredRegion).indexOf(path[0]) + 1));
+        if (!matches) {
+          reject(`lies in ${territory.name}, not territory "${site.territory}"`);
+          continue;
+        }
+      }
+
+      const clash = pinnedRanges.find((p) => p.start <= end && p.end >= start);
+      if (clash) {
+        reject(`overlaps existing site "${clash.name}"`);
+        continue;
+      }
+
+      pinnedRanges.push({ name: site.name, start, end });
+      const { first, last } = CIDRMath.getHostRange(network, parsed.prefix);
+      const existingCount = territory.children?.length ?? 0;
+      territory.children = [
+        ...(territory.children ?? []),
+        {
+          id: `${territory.id}-existing-${existingCount}`,
+          name: site.name,
+          cidr: `${network}/${parsed.prefix}`,
+          network,
+          broadcast: CIDRMath.getBroadcastAddress(network, parsed.prefix),
+          addressRange: `${first} - ${last}`,
+          prefix: parsed.prefix,
+          totalAddresses: end - start + BigInt(1),
+          usableHosts: CIDRMath.usableHosts(parsed.prefix, this.version),
+          metadata: { existing: true, sitePrefix: parsed.prefix },
+        },
+      ].sort((a, b) => {
+        const diff = CIDRMath.ipToNumber(a.network) - CIDRMath.ipToNumber(b.network);
+        return diff < BigInt(0) ? -1 : diff > BigInt(0) ? 1 : 0;
+      });
+
+      const standard = territory.metadata?.sitePrefix ?? sitePrefix;
+      const issue =
+        parsed.prefix !== standard
+          ? `is a /${parsed.prefix}, the site standard is /${standard}`
+          : undefined;
+      if (issue) {
+        warnings.push(`Existing site "${site.name}" (${site.cidr}) ${issue}`);
+      }
+      sites.push({
+        ...site,
+        status: "pinned",
+        issue,
+        territoryCidr: territory.cidr,
+      });
+    }
+
+    return {
+      pinned: sites.filter((s) => s.status === "pinned").length,
+      rejected: sites.filter((s) => s.status === "rejected").length,
+      sites,
+    };
+  }
+
+  // Splits a block into the tier at depth, then each new block into the tiers
+  // below it, down to the last level template
+  private splitLevels(
+    parent: HierarchyLevel,
+    depth: number,
+    specs: TerritorySpec[],
+    prefixes?: number[]
+  ): void {
+    const levels = this.levelTemplates();
+    if (depth >= levels.length) {
+      if (this.config.siteTiers?.length) parent.children = this.splitSiteTiers(parent);
+      return;
+    }
+
+    parent.children = this.splitCIDR(parent, specs, prefixes);
+    for (const child of this.tiers(parent)) {
+      child.metadata = { ...child.metadata, level: levels[depth].name };
+      const below = levels[depth + 1];
+      this.splitLevels(child, depth + 1, below ? this.levelSpecs(below, child.name) : []);
+    }
+  }
+
+  // Carves a block that holds sites into one pool per site tier. Shares follow
+  // each tier's expected sites times its site block size, and the pools fill
+  // the whole block: the space the rounding leaves goes to the tiers furthest
+  // below their share, one doubling at a time.
+  private splitSiteTiers(block: HierarchyLevel): HierarchyLevel[] {
+    const tiers = this.tierPrefixes();
+    const smallest = Math.max(...tiers.map((t) => t.sitePrefix));
+    const demand = tiers.map(
+      ({ tier, sitePrefix }) => tier.sitesNeeded * Math.pow(2, smallest - sitePrefix)
+    );
+    const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+    const divisor = demand.reduce(gcd);
+    const weights = demand.map((d) => d / divisor);
+
+    // Power-of-two units always pack; their sum stays a multiple of the
+    // smallest unit, so doubling ends with the block exactly full
+    const { bitsNeeded, units } = HierarchicalAllocator.weightUnits(weights);
+    const capacity = Math.pow(2, bitsNeeded);
+    for (;;) {
+      const used = units.reduce((sum, u) => sum + u, 0);
+      const grow = units.reduce(
+        (best, u, i) =>
+          used + u <= capacity && (best < 0 || weights[i] / u > weights[best] / units[best])
+            ? i
+            : best,
+        -1
+      );
+      if (grow < 0) break;
+      units[grow] *= 2;
+    }
+
+    const pools = this.splitCIDR(
+      block,
+      tiers.map(({ tier }, i) => ({
+        name: `${block.name} ${tier.name}`,
+        weight: weights[i],
+      })),
+      units.map((u) => block.prefix + bitsNeeded - Math.log2(u))
+    );
+    tiers.forEach(({ tier, sitePrefix }, i) => {
+      pools[i].metadata = { siteTier: tier.name, sitePrefix };
+    });
+    return pools;
+  }
+
+  // Tier blocks directly below a block; pinned existing sites and the
+  // unallocated rest of a split are not tiers
+  private tiers(level: HierarchyLevel): HierarchyLevel[] {
+    return (level.children ?? []).filter(
+      (child) => !child.metadata?.existing && !child.metadata?.unallocated
+    );
+  }
+
+  // Unallocated rest of every split below a block
+  private unallocatedBelow(level: HierarchyLevel): bigint {
+    return (level.children ?? []).reduce(
+      (sum, child) =>
+        sum +
+        (child.metadata?.unallocated
+          ? child.totalAddresses
+          : child.metadata?.existing
+          ? BigInt(0)
+          : this.unallocatedBelow(child)),
+      BigInt(0)
+    );
+  }
+
+  // Blocks that hold sites: the deepest tier blocks below a block
+  private pools(level: HierarchyLevel): HierarchyLevel[] {
+    const tiers = this.tiers(level);
+    return tiers.length > 0 ? tiers.flatMap((tier) => this.pools(tier)) : [level];
+  }
+
+  // Free site slots plus pinned sites of every block sites are carved from,
+  // summed up through the tiers above them
+  private assignCapacity(level: HierarchyLevel, sitePrefix: number): number {
+    const tiers = this.tiers(level);
+    if (tiers.length > 0) {
+      const sitesCapacity = tiers.reduce(
+        (sum, tier) => sum + this.assignCapacity(tier, sitePrefix),
+        0
+      );
+      level.metadata = { ...level.metadata, sitesCapacity };
+      return sitesCapacity;
+    }
+
+    // Site tier pools carry their own site block
+    const poolPrefix = level.metadata?.sitePrefix ?? sitePrefix;
+    if (level.prefix > poolPrefix) {
+      throw new Error(
+        `${level.name} (${level.cidr}) is smaller than a /${poolPrefix} site - use fewer tiers or blocks, or a larger supernet`
+      );
+    }
+    const pinned = level.children ?? [];
+    const sitesCapacity =
+      Number(CIDRMath.subnetCount(level.prefix, poolPrefix)) -
+      this.countOccupiedSlots(level, poolPrefix) +
+      pinned.length;
+
+    level.metadata = {
+      ...level.metadata,
+      sitesCapacity,
+      sitePrefix: poolPrefix,
+      sitesExisting: pinned.length > 0 ? pinned.length : undefined,
+    };
+    return sitesCapacity;
+  }
+
+  // Number of standard site slots in a territory touched by pinned sites
+  private countOccupiedSlots(territory: HierarchyLevel, sitePrefix: number): number {
+    const base = CIDRMath.ipToNumber(territory.network);
+    const siteSize = CIDRMath.subnetAddressCount(sitePrefix, this.version);
+    // First and last slot of each site, merged so shared slots count once
+    const ranges = (territory.children ?? [])
+      .map((site) => {
+        const start = CIDRMath.ipToNumber(site.network) - base;
+        const end = start + site.totalAddresses - BigInt(1);
+        return { first: start / siteSize, last: end / siteSize };
+      })
+      .sort((a, b) => (a.first < b.first ? -1 : a.first > b.first ? 1 : 0));
+
+    let occupied = BigInt(0);
+    let next = BigInt(0);
+    for (const { first, last } of ranges) {
+      const from = first > next ? first : next;
+      if (last >= from) occupied += last - from + BigInt(1);
+      if (last + BigInt(1) > next) next = last + BigInt(1);
+    }
+
+    return Number(occupied);
+  }
+
   generateSiteExample(
     subRegionCIDR: string,
     siteIndex: number
@@ -429,7 +1424,7 @@ export class HierarchicalAllocator {
 
     const broadcast = CIDRMath.getBroadcastAddress(siteNetwork, sitePrefix);
     const { first, last } = CIDRMath.getHostRange(siteNetwork, sitePrefix);
-    const totalAddresses = CIDRMath.subnetAddressCount(sitePrefix);
+    const totalAddresses = CIDRMath.subnetAddressCount(sitePrefix, this.version);
 
     const vlans: HierarchyLevel[] = [];
     const vlanCount = this.config.vlansPerSite;
@@ -450,7 +1445,10 @@ export class HierarchicalAllocator {
         vlanNetwork,
         this.config.vlanSize
       );
-      const vlanTotal = CIDRMath.subnetAddressCount(this.config.vlanSize);
+      const vlanTotal = CIDRMath.subnetAddressCount(
+        this.config.vlanSize,
+        this.version
+      );
 
       vlans.push({
         id: `site-${siteIndex}-vlan-${i}`,
@@ -461,11 +1459,11 @@ export class HierarchicalAllocator {
         addressRange: `${vlanFirst} - ${vlanLast}`,
         prefix: this.config.vlanSize,
         totalAddresses: vlanTotal,
-        usableHosts: CIDRMath.usableHosts(this.config.vlanSize),
+        usableHosts: CIDRMath.usableHosts(this.config.vlanSize, this.version),
       });
     }
 
-    return {
+    const site: HierarchyLevel = {
       id: `site-${siteIndex}`,
       name: `Site ${siteIndex + 1}`,
       cidr: `${siteNetwork}/${sitePrefix}`,
@@ -474,8 +1472,11 @@ export class HierarchicalAllocator {
       addressRange: `${first} - ${last}`,
       prefix: sitePrefix,
       totalAddresses,
-      usableHosts: CIDRMath.usableHosts(sitePrefix),
+      usableHosts: CIDRMath.usableHosts(sitePrefix, this.version),
       children: vlans,
     };
+
+    this.dualStackMapper?.annotate(site);
+    return site;
   }
 }
@@ -0,0 +1,41 @@
+// @/lib/level-list.ts
+
+import type { LevelTemplate } from "./hierarchical-allocator";
+
+// One-line level templates as typed in the form: comma-separated tiers of
+// name, block count or slash-separated weights, and an optional naming
+// pattern, e.g. "City:4, Campus:3/1:{parent}-C{n}". Blank keeps the default
+// Territory tier; "none" carves sites straight from the regions.
+export class LevelList {
+  static parse(text: string): LevelTemplate[] | undefined {
+    const trimmed = text.trim();
+    if (!trimmed) return undefined;
+    if (trimmed.toLowerCase() === "none") return [];
+
+    return trimmed
+      .split(/[,\n]/)
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const [name, size, ...naming] = entry.split(":").map((part) => part.trim());
+        if (!name) throw new Error(`Level "${entry}" needs a name`);
+
+        const values = (size ?? "").split("/").map(Number);
+        if (!size || values.some((v) => !Number.isInteger(v) || v < 1)) {
+          throw new Error(`Level "${name}" needs a block count or weights, e.g. ${name}:4 or ${name}:2/1`);
+        }
+
+        const level: LevelTemplate = values.length > 1 ? { name, weights: values } : { name, count: values[0] };
+        if (naming.join(":")) level.naming = naming.join(":");
+        return level;
+      });
+  }
+
+  static format(levels?: LevelTemplate[]): string {
+    if (!levels) return "";
+    if (levels.length === 0) return "none";
+    return levels
+      .map((l) => [l.name, l.weights ? l.weights.join("/") : String(l.count ?? 1), l.naming ?? ""].join(":").replace(/:$/, ""))
+      .join(", ");
+  }
+}
@@ -0,0 +1,199 @@
+// @/lib/netbox-export.ts
+
+import { CsvExport } from "./csv-export";
+import type { AllocationResult, HierarchyLevel } from "./hierarchical-allocator";
+import { SitePlan, type PlannedSite, type SiteWalkOptions } from "./site-plan";
+import type { ExportFile } from "./utils";
+
+type NetBoxField = string | number | boolean;
+type NetBoxRecord = Record<string, NetBoxField>;
+
+export type NetBoxFormat = "csv" | "json";
+
+// One list per NetBox bulk-import form, using its CSV/JSON field names
+export interface NetBoxBundle {
+  regions: NetBoxRecord[];
+  siteGroups: NetBoxRecord[];
+  roles: NetBoxRecord[];
+  vlanGroups: NetBoxRecord[];
+  vlans: NetBoxRecord[];
+  prefixes: NetBoxRecord[];
+}
+
+export interface NetBoxExportOptions extends SiteWalkOptions {
+  format: NetBoxFormat;
+}
+
+// Prefix roles, one per hierarchy level, and one for excluded ranges
+const ROLES = ["Supernet", "Region", "Territory", "Site", "VLAN", "Reserved"] as const;
+type PrefixRole = (typeof ROLES)[number];
+
+// Import order matters: prefixes reference roles, VLAN groups and VLANs by name
+const FILES: Array<{ key: keyof NetBoxBundle; name: string; columns: string[] }> = [
+  { key: "regions", name: "01-regions", columns: ["name", "slug", "description"] },
+  { key: "siteGroups", name: "02-site-groups", columns: ["name", "slug", "description"] },
+  { key: "roles", name: "03-prefix-roles", columns: ["name", "slug", "weight"] },
+  { key: "vlanGroups", name: "04-vlan-groups", columns: ["name", "slug", "description"] },
+  { key: "vlans", name: "05-vlans", columns: ["group", "vid", "name", "status", "description"] },
+  {
+    key: "prefixes",
+    name: "06-prefixes",
+    columns: ["prefix", "status", "role", "vlan_group", "vlan", "description"],
+  },
+];
+
+export class NetBoxExport {
+  static slug(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+  }
+
+  // Prefixes are emitted parent before child so NetBox builds the same nesting
+  // as the hierarchy: supernet > region > territory > site > VLAN. Regions and
+  // territories also become Regions and Site Groups; each planned site gets a
+  // VLAN group holding the site template.
+  static bundle(
+    result: AllocationResult,
+    vlanPrefixes: number[],
+    options: SiteWalkOptions = {}
+  ): NetBoxBundle {
+    const bundle: NetBoxBundle = {
+      regions: [],
+      siteGroups: [],
+      roles: ROLES.map((name, i) => ({ name, slug: this.slug(name), weight: (i + 1) * 100 })),
+      vlanGroups: [],
+      vlans: [],
+      prefixes: [],
+    };
+    const mapper = SitePlan.mapper(result);
+    // Sites grouped by the pool they are carved from, in walk order
+    const sitesByPool = new Map<string, PlannedSite[]>();
+    for (const site of SitePlan.sites(result, options)) {
+      const list = sitesByPool.get(site.territory.id);
+      if (list) list.push(site);
+      else sitesByPool.set(site.territory.id, [site]);
+    }
+
+    const addPrefix = (
+      cidr: string,
+      ipv6Cidr: string | undefined,
+      status: string,
+      role: PrefixRole,
+      description: string,
+      extra: NetBoxRecord = {}
+    ) => {
+      bundle.prefixes.push({ prefix: cidr, status, role, ...extra, description });
+      if (ipv6Cidr) bundle.prefixes.push({ prefix: ipv6Cidr, status, role, ...extra, description });
+    };
+
+    // Tiers above the site pools (deeper level templates) are plain containers
+    const addTiers = (level: HierarchyLevel) => {
+      for (const tier of level.children ?? []) {
+        if (!tier.children?.some((child) => !child.metadata?.existing)) continue;
+        addPrefix(tier.cidr, tier.ipv6?.cidr, "container", "Territory", tier.name);
+        addTiers(tier);
+      }
+    };
+
+    const { hierarchy } = result;
+    const pools = SitePlan.pools(result);
+    addPrefix(hierarchy.cidr, hierarchy.ipv6?.cidr, "container", "Supernet", hierarchy.name);
+
+    for (const region of hierarchy.children ?? []) {
+      // Free space stays free; NetBox reports it as available on its own
+      if (region.metadata?.unallocated) continue;
+      if (region.metadata?.excluded) {
+        addPrefix(region.cidr, region.ipv6?.cidr, "reserved", "Reserved", "Excluded range");
+        continue;
+      }
+
+      const regionKey = SitePlan.regionKey(region);
+      bundle.regions.push({ name: region.name, slug: this.slug(regionKey), description: region.cidr });
+      addPrefix(region.cidr, region.ipv6?.cidr, "container", "Region", region.name);
+
+      addTiers(region);
+
+      for (const pool of pools.filter((p) => p.region === region)) {
+        const { territory } = pool;
+        // A region without tiers holds its sites directly
+        if (territory !== region) {
+          bundle.siteGroups.push({
+            name: territory.name,
+            slug: this.slug(SitePlan.territoryKey(pool)),
+            description: `${region.name} ${territory.cidr}`,
+          });
+          addPrefix(territory.cidr, territory.ipv6?.cidr, "container", "Territory", territory.name);
+        }
+
+        for (const site of sitesByPool.get(territory.id) ?? []) {
+          // Existing sites keep their own numbering, so they are recorded as in use
+          if (site.status === "existing") {
+            addPrefix(site.cidr, site.ipv6Cidr, "active", "Site", `${site.name} (existing)`);
+            continue;
+          }
+
+          bundle.vlanGroups.push({
+            name: site.name,
+            slug: this.slug(site.name),
+            description: `${territory.name} slot ${site.index}`,
+          });
+          addPrefix(site.cidr, site.ipv6Cidr, "container", "Site", site.name);
+
+          const template = SitePlan.poolVlanPrefixes(result, pool, vlanPrefixes);
+          for (const vlan of SitePlan.layoutVlans(site.cidr, template, mapper).vlans) {
+            const name = `VLAN${vlan.index}`;
+            bundle.vlans.push({
+              group: site.name,
+              vid: vlan.vlanId,
+              name,
+              status: "active",
+              description: `Gateway ${vlan.gateway}`,
+            });
+            addPrefix(
+              vlan.cidr,
+              vlan.ipv6Cidr,
+              "active",
+              "VLAN",
+              `${site.name} ${name}`,
+              { vlan_group: site.name, vlan: vlan.vlanId }
+            );
+          }
+        }
+      }
+    }
+
+    return bundle;
+  }
+
+  static files(
+    result: AllocationResult,
+    vlanPrefixes: number[],
+    options: NetBoxExportOptions
+  ): ExportFile[] {
+    const bundle = this.bundle(result, vlanPrefixes, options);
+
+    return FILES.map(({ key, name, columns }) =>
+      options.format === "json"
+        ? {
+            name: `${name}.json`,
+            content: JSON.stringify(bundle[key], null, 2) + "\n",
+            mimeType: "application/json",
+          }
+        : {
+            name: `${name}.csv`,
+            content: this.toCSV(bundle[key], columns),
+            mimeType: "text/csv",
+          }
+    );
+  }
+
+  // Every record gets every column so NetBox sees a rectangular table
+  private static toCSV(records: NetBoxRecord[], columns: string[]): string {
+    const lines = [
+      columns.join(","),
+      ...records.map((record) =>
+        columns.map((column) => CsvExport.escape(record[column]?.toString())).join(",")
+      ),
+    ];
+    return lines.join("\n") + "\n";
+  }
+}
@@ -0,0 +1,44 @@
+// @/lib/plan-codec.test.ts
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { AllocationConfig } from "./hierarchical-allocator";
+import { PlanCodec } from "./plan-codec";
+
+const config: AllocationConfig = {
+  supernet: "10.0.0.0/8",
+  regionBiases: [
+    { name: "A", ratio: 2, code: "AA", sitesNeeded: 300 },
+    { name: "B", ratio: 1, code: "BB" },
+  ],
+  subRegionsPerRegion: 2,
+  vlansPerSite: 5,
+  vlanSize: 24,
+  totalSitesNeeded: 1000,
+  growthMultiplier: 1.5,
+};
+
+test("keeps a region without demand weight-sized across a link", () => {
+  const plan = PlanCodec.decode(PlanCodec.encode(PlanCodec.fromConfig(config)));
+  assert.deepEqual(plan.demand?.regionSites, [300, null]);
+  assert.equal(plan.growthMultiplier, 1.5);
+});
+
+test("keeps the growth multiplier of a plan sized by weights", () => {
+  const weighted = {
+    ...config,
+    regionBiases: config.regionBiases.map(({ name, ratio, code }) => ({ name, ratio, code })),
+  };
+  const plan = PlanCodec.decode(PlanCodec.encode(PlanCodec.fromConfig(weighted)));
+  assert.equal(plan.demand, undefined);
+  assert.equal(plan.growthMultiplier, 1.5);
+});
+
+test("reads the default growth multiplier from links that carry none", () => {
+  const plan = PlanCodec.fromConfig({
+    ...config,
+    regionBiases: [{ name: "A", ratio: 1 }],
+    growthMultiplier: 3,
+  });
+  assert.equal(PlanCodec.decode(PlanCodec.encode(plan)).growthMultiplier, 3);
+});
@@ -0,0 +1,254 @@
+// @/lib/plan-codec.ts
+
+import { DEFAULT_GROWTH_MULTIPLIER } from "./config-validator";
+import type { AllocationConfig } from "./hierarchical-allocator";
+import { LevelList } from "./level-list";
+import { SiteTierList } from "./site-tier-list";
+import { TerritoryList } from "./territory-list";
+
+// Everything the Configure step collects, in the shape the page keeps in state
+export interface PlanState {
+  supernet: string;
+  regionRatios: number[];
+  subRegionsPerRegion: number;
+  sitesNeeded: number;
+  vlansPerSite: number;
+  vlanSize: number;
+  vlanPrefixes: number[];
+  ipv6Supernet?: string;
+  exclusions: string[];
+  existingSitesText: string;
+  growthMultiplier: number;
+  // Site-count sizing; absent when regions are sized by their weights
+  demand?: PlanDemand;
+  // Per region territory list text (see TerritoryList); empty for numbered territories
+  territoriesText: string[];
+  // Tiers below the regions (see LevelList); empty for the default Territory tier
+  levelsText: string;
+  // Site tiers with their own VLAN templates (see SiteTierList); empty for one standard template
+  siteTiersText: string;
+  // Region names and codes ("" for none), by position; empty for the built-in names
+  regionNames: string[];
+  regionCodes: string[];
+}
+
+export interface PlanDemand {
+  regionSites: (number | null)[]; // null: the region shares what is left by its weight
+  territorySites: number[][]; // Empty list: the region's sites split evenly
+}
+
+const PLAN_CODEC_VERSION = 1;
+const HASH_KEY = "plan";
+
+// Positional layout of a v1 payload; trailing empty fields are dropped
+type PlanPayloadV1 = [
+  version: number,
+  supernet: string,
+  regionRatios: number[],
+  subRegionsPerRegion: number,
+  sitesNeeded: number,
+  vlansPerSite: number,
+  vlanSize: number,
+  vlanPrefixes?: number[],
+  ipv6Supernet?: string,
+  exclusions?: string[],
+  existingSitesText?: string,
+  demand?: [growthMultiplier: number, regionSites: (number | null)[], territorySites: number[][]] | "",
+  territoriesText?: string[],
+  levelsText?: string,
+  siteTiersText?: string,
+  regionNames?: string[],
+  regionCodes?: string[],
+  // Only without demand (which carries its own); "" for the default
+  growthMultiplier?: number | "",
+];
+
+export class PlanCodec {
+  // Compact, URL-safe token: "<version>.<base64url(JSON payload)>"
+  static encode(plan: PlanState): string {
+    const payload: PlanPayloadV1 = [
+      PLAN_CODEC_VERSION,
+      plan.supernet,
+      plan.regionRatios,
+      plan.subRegionsPerRegion,
+      plan.sitesNeeded,
+      plan.vlansPerSite,
+      plan.vlanSize,
+      // Overrides equal to the default VLAN size carry no information
+      plan.vlanPrefixes.some((p) => p !== plan.vlanSize) ? plan.vlanPrefixes : [],
+      plan.ipv6Supernet ?? "",
+      plan.exclusions,
+      plan.existingSitesText,
+      plan.demand
+        ? [plan.growthMultiplier, plan.demand.regionSites, plan.demand.territorySites]
+        : "",
+      plan.territoriesText.some(Boolean) ? plan.territoriesText : [],
+      plan.levelsText,
+      plan.siteTiersText,
+      plan.regionNames,
+      plan.regionCodes,
+      plan.demand || plan.growthMultiplier === DEFAULT_GROWTH_MULTIPLIER ? "" : plan.growthMultiplier,
+    ];
+
+    while (payload.length > 7 && this.isEmptyField(payload[payload.length - 1])) {
+      payload.pop();
+    }
+
+    return `${PLAN_CODEC_VERSION}.${this.toBase64Url(JSON.stringify(payload))}`;
+  }
+
+  static decode(token: string): PlanState {
+    const [version, body] = token.split(".", 2);
+    if (Number(version) !== PLAN_CODEC_VERSION || !body) {
+      throw new Error(`Unsupported plan link version "${version}"`);
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(this.fromBase64Url(body));
+    } catch {
+      throw new Error("Plan link is corrupted and could not be read");
+    }
+
+    if (!Array.isArray(payload) || payload.length < 7) {
+      throw new Error("Plan link is incomplete");
+    }
+
+    const [
+      ,
+      supernet,
+      regionRatios,
+      subRegionsPerRegion,
+      sitesNeeded,
+      vlansPerSite,
+      vlanSize,
+      vlanPrefixes = [],
+      ipv6Supernet = "",
+      exclusions = [],
+      existingSitesText = "",
+      demand = "",
+      territoriesText = [],
+      levelsText = "",
+      siteTiersText = "",
+      regionNames = [],
+      regionCodes = [],
+      growthMultiplier = "",
+    ] = payload as PlanPayloadV1;
+
+    const isNumberList = (value: unknown): value is number[] =>
+      Array.isArray(value) && value.every((v) => Number.isInteger(v));
+    const isStringList = (value: unknown): value is string[] =>
+      Array.isArray(value) && value.every((v) => typeof v === "string");
+
+    if (
+      typeof supernet !== "string" ||
+      !isNumberList(regionRatios) ||
+      regionRatios.length === 0 ||
+      ![subRegionsPerRegion, sitesNeeded, vlansPerSite, vlanSize].every(Number.isInteger) ||
+      !isNumberList(vlanPrefixes) ||
+      typeof ipv6Supernet !== "string" ||
+      !isStringList(exclusions) ||
+      typeof existingSitesText !== "string" ||
+      (demand !== "" &&
+        (!Array.isArray(demand) ||
+          typeof demand[0] !== "number" ||
+          !Array.isArray(demand[1]) ||
+          !demand[1].every((n) => n === null || Number.isInteger(n)) ||
+          !Array.isArray(demand[2]) ||
+          !demand[2].every(isNumberList))) ||
+      !isStringList(territoriesText) ||
+      typeof levelsText !== "string" ||
+      typeof siteTiersText !== "string" ||
+      !isStringList(regionNames) ||
+      !isStringList(regionCodes) ||
+      (growthMultiplier !== "" && typeof growthMultiplier !== "number")
+    ) {
+      throw new Error("Plan link contains invalid fields");
+    }
+
+    return {
+      supernet,
+      regionRatios,
+      subRegionsPerRegion,
+      sitesNeeded,
+      vlansPerSite,
+      vlanSize,
+      vlanPrefixes,
+      ipv6Supernet: ipv6Supernet || undefined,
+      exclusions,
+      existingSitesText,
+      growthMultiplier: demand ? demand[0] : growthMultiplier || DEFAULT_GROWTH_MULTIPLIER,
+      demand: demand ? { regionSites: demand[1], territorySites: demand[2] } : undefined,
+      territoriesText,
+      levelsText,
+      siteTiersText,
+      regionNames,
+      regionCodes,
+    };
+  }
+
+  // Form state for an allocator config; existing sites round-trip as JSON text
+  static fromConfig(config: AllocationConfig, vlanPrefixes: number[] = []): PlanState {
+    return {
+      supernet: config.supernet,
+      regionRatios: config.regionBiases.map((bias) => bias.ratio),
+      subRegionsPerRegion: config.subRegionsPerRegion,
+      sitesNeeded: config.totalSitesNeeded,
+      vlansPerSite: config.vlansPerSite,
+      vlanSize: config.vlanSize,
+      vlanPrefixes,
+      ipv6Supernet: config.dualStack?.ipv6Supernet,
+      exclusions: config.exclusions ?? [],
+      existingSitesText: config.existingSites?.length
+        ? JSON.stringify(config.existingSites, null, 2)
+        : "",
+      growthMultiplier: config.growthMultiplier,
+      demand: config.regionBiases.some((b) => b.sitesNeeded !== undefined || b.territorySites)
+        ? {
+            regionSites: config.regionBiases.map(
+              (b) => b.territorySites?.reduce((sum, n) => sum + n, 0) ?? b.sitesNeeded ?? null
+            ),
+            territorySites: config.regionBiases.map((b) => b.territorySites ?? []),
+          }
+        : undefined,
+      territoriesText: config.regionBiases.some((b) => b.territories)
+        ? config.regionBiases.map((b) => (b.territories ? TerritoryList.format(b.territories) : ""))
+        : [],
+      levelsText: LevelList.format(config.levels),
+      siteTiersText: SiteTierList.format(config.siteTiers),
+      regionNames: config.regionBiases.map((bias) => bias.name),
+      regionCodes: config.regionBiases.map((bias) => bias.code ?? ""),
+    };
+  }
+
+  // Fragment for location.hash; kept out of the query so plans never reach the server
+  static toHash(plan: PlanState): string {
+    return `#${HASH_KEY}=${this.encode(plan)}`;
+  }
+
+  static fromHash(hash: string): PlanState | null {
+    const token = new URLSearchParams(hash.replace(/^#/, "")).get(HASH_KEY);
+    return token ? this.decode(token) : null;
+  }
+
+  private static isEmptyField(value: unknown): boolean {
+    return value === "" || (Array.isArray(value) && value.length === 0);
+  }
+
+  private static toBase64Url(text: string): string {
+    const bytes = new TextEncoder().encode(text);
+    let binary = "";
+    bytes.forEach((byte) => {
+      binary += String.fromCharCode(byte);
+    });
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+  }
+
+  private static fromBase64Url(token: string): string {
+    const base64 = token.replace(/-/g, "+").replace(/_/g, "/");
+    const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+    return new TextDecoder().decode(
+      Uint8Array.from(binary, (char) => char.charCodeAt(0))
+    );
+  }
+}
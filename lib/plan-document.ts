@@ -0,0 +1,117 @@
+// @/lib/plan-document.ts
+
+import type {
+  AllocationConfig,
+  AllocationResult,
+  HierarchyLevel,
+} from "./hierarchical-allocator";
+import { SitePlan } from "./site-plan";
+
+export const PLAN_DOCUMENT_FORMAT = "ipam-architect-plan";
+export const PLAN_DOCUMENT_VERSION = 1;
+export const PLAN_DOCUMENT_SCHEMA = "/schemas/plan-v1.schema.json";
+
+// Standard VLAN layout applied to every site
+export interface VlanTemplate {
+  vlansPerSite: number;
+  defaultPrefix: number;
+  prefixes: number[]; // Prefix length for each VLAN, in order
+}
+
+// Complete, self-describing export of a plan. Address counts inside the
+// hierarchy are serialized as decimal strings because they exceed 2^53 for IPv6.
+export interface PlanDocument {
+  $schema: string;
+  format: typeof PLAN_DOCUMENT_FORMAT;
+  version: number;
+  exportedAt: string;
+  config: AllocationConfig;
+  vlanTemplate: VlanTemplate;
+  result: AllocationResult;
+}
+
+// HierarchyLevel fields that hold bigints
+const BIGINT_FIELDS = new Set(["totalAddresses", "usableHosts"]);
+
+export class PlanExport {
+  static create(
+    config: AllocationConfig,
+    result: AllocationResult,
+    vlanPrefixes: number[]
+  ): PlanDocument {
+    return {
+      $schema: PLAN_DOCUMENT_SCHEMA,
+      format: PLAN_DOCUMENT_FORMAT,
+      version: PLAN_DOCUMENT_VERSION,
+      exportedAt: new Date().toISOString(),
+      config,
+      vlanTemplate: {
+        vlansPerSite: config.vlansPerSite,
+        defaultPrefix: config.vlanSize,
+        prefixes: SitePlan.vlanPrefixes(
+          config.vlansPerSite,
+          config.vlanSize,
+          vlanPrefixes
+        ),
+      },
+      result,
+    };
+  }
+
+  // JSON.stringify replacer that writes bigints as decimal strings
+  static replacer(_key: string, value: unknown): unknown {
+    return typeof value === "bigint" ? value.toString() : value;
+  }
+
+  static stringify(document: PlanDocument): string {
+    return JSON.stringify(document, PlanExport.replacer, 2);
+  }
+
+  static parse(text: string): PlanDocument {
+    let data: unknown;
+    try {
+      data = JSON.parse(text, (key, value) =>
+        BIGINT_FIELDS.has(key) && typeof value === "string" && /^\d+$/.test(value)
+          ? BigInt(value)
+          : value
+      );
+    } catch {
+      throw new Error("Plan file is not valid JSON");
+    }
+
+    const doc = data as Partial<PlanDocument> | null;
+    if (!doc || doc.format !== PLAN_DOCUMENT_FORMAT) {
+      throw new Error("File is not an IPAM Architect plan export");
+    }
+    if (doc.version !== PLAN_DOCUMENT_VERSION) {
+      throw new Error(
+        `Plan version ${doc.version} is not supported (expected ${PLAN_DOCUMENT_VERSION})`
+      );
+    }
+    if (
+      typeof doc.config?.supernet !== "string" ||
+      !Array.isArray(doc.config.regionBiases) ||
+      !doc.vlanTemplate ||
+      !Array.isArray(doc.vlanTemplate.prefixes) ||
+      !doc.result?.hierarchy
+    ) {
+      throw new Error("Plan file is missing its config, VLAN template or hierarchy");
+    }
+
+    this.assertLevel(doc.result.hierarchy, "hierarchy");
+    return doc as PlanDocument;
+  }
+
+  private static assertLevel(level: HierarchyLevel, path: string): void {
+    if (
+      typeof level.cidr !== "string" ||
+      typeof level.totalAddresses !== "bigint" ||
+      typeof level.usableHosts !== "bigint"
+    ) {
+      throw new Error(`Plan file has an invalid hierarchy node at ${path}`);
+    }
+    level.children?.forEach((child, i) =>
+      this.assertLevel(child, `${path}.children[${i}]`)
+    );
+  }
+}
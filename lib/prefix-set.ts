@@ -0,0 +1,191 @@
+// @/lib/prefix-set.ts
+
+import { CIDRMath, type IPVersion } from "./cidr-math";
+
+interface AddressRange {
+  start: bigint;
+  end: bigint;
+}
+
+export interface PrefixOverlap {
+  a: string;
+  b: string;
+  overlap: string[];
+}
+
+// An immutable set of addresses, held as sorted, merged ranges per address
+// family. Set operations work on ranges and convert back to minimal CIDRs.
+export class PrefixSet {
+  private ranges: Record<IPVersion, AddressRange[]>;
+
+  private constructor(ranges: Record<IPVersion, AddressRange[]>) {
+    this.ranges = {
+      4: PrefixSet.normalize(ranges[4]),
+      6: PrefixSet.normalize(ranges[6]),
+    };
+  }
+
+  static empty(): PrefixSet {
+    return new PrefixSet({ 4: [], 6: [] });
+  }
+
+  static from(cidrs: string[]): PrefixSet {
+    const ranges: Record<IPVersion, AddressRange[]> = { 4: [], 6: [] };
+    for (const cidr of cidrs) {
+      const { version, range } = this.cidrRange(cidr);
+      ranges[version].push(range);
+    }
+    return new PrefixSet(ranges);
+  }
+
+  private static cidrRange(cidr: string): {
+    version: IPVersion;
+    range: AddressRange;
+  } {
+    const { ip, prefix, version } = CIDRMath.parseCIDR(cidr.trim());
+    const start = CIDRMath.ipToNumber(CIDRMath.getNetworkAddress(ip, prefix));
+    return {
+      version,
+      range: {
+        start,
+        end: start + CIDRMath.subnetAddressCount(prefix, version) - BigInt(1),
+      },
+    };
+  }
+
+  private static normalize(ranges: AddressRange[]): AddressRange[] {
+    const sorted = [...ranges].sort((a, b) =>
+      a.start < b.start ? -1 : a.start > b.start ? 1 : 0
+    );
+    const merged: AddressRange[] = [];
+    for (const range of sorted) {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end + BigInt(1)) {
+        if (range.end > last.end) last.end = range.end;
+      } else {
+        merged.push({ ...range });
+      }
+    }
+    return merged;
+  }
+
+  private static intersectRanges(
+    a: AddressRange[],
+    b: AddressRange[]
+  ): AddressRange[] {
+    const result: AddressRange[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      const start = a[i].start > b[j].start ? a[i].start : b[j].start;
+      const end = a[i].end < b[j].end ? a[i].end : b[j].end;
+      if (start <= end) result.push({ start, end });
+      if (a[i].end < b[j].end) i++;
+      else j++;
+    }
+    return result;
+  }
+
+  private static subtractRanges(
+    a: AddressRange[],
+    b: AddressRange[]
+  ): AddressRange[] {
+    const result: AddressRange[] = [];
+    for (const range of a) {
+      let start = range.start;
+      for (const cut of b) {
+        if (cut.end < start || cut.start > range.end) continue;
+        if (cut.start > start) result.push({ start, end: cut.start - BigInt(1) });
+        start = cut.end + BigInt(1);
+        if (start > range.end) break;
+      }
+      if (start <= range.end) result.push({ start, end: range.end });
+    }
+    return result;
+  }
+
+  union(other: PrefixSet): PrefixSet {
+    return new PrefixSet({
+      4: [...this.ranges[4], ...other.ranges[4]],
+      6: [...this.ranges[6], ...other.ranges[6]],
+    });
+  }
+
+  intersect(other: PrefixSet): PrefixSet {
+    return new PrefixSet({
+      4: PrefixSet.intersectRanges(this.ranges[4], other.ranges[4]),
+      6: PrefixSet.intersectRanges(this.ranges[6], other.ranges[6]),
+    });
+  }
+
+  difference(other: PrefixSet): PrefixSet {
+    return new PrefixSet({
+      4: PrefixSet.subtractRanges(this.ranges[4], other.ranges[4]),
+      6: PrefixSet.subtractRanges(this.ranges[6], other.ranges[6]),
+    });
+  }
+
+  isEmpty(): boolean {
+    return this.ranges[4].length === 0 && this.ranges[6].length === 0;
+  }
+
+  overlaps(cidr: string): boolean {
+    const { version, range } = PrefixSet.cidrRange(cidr);
+    return this.ranges[version].some(
+      (r) => r.start <= range.end && r.end >= range.start
+    );
+  }
+
+  contains(cidr: string): boolean {
+    const { version, range } = PrefixSet.cidrRange(cidr);
+    return this.ranges[version].some(
+      (r) => r.start <= range.start && r.end >= range.end
+    );
+  }
+
+  // Total number of addresses in the set for one family
+  size(version: IPVersion = 4): bigint {
+    return this.ranges[version].reduce(
+      (sum, r) => sum + (r.end - r.start + BigInt(1)),
+      BigInt(0)
+    );
+  }
+
+  // Minimal CIDR list, IPv4 before IPv6
+  toCIDRs(): string[] {
+    return ([4, 6] as IPVersion[]).flatMap((version) =>
+      this.ranges[version].flatMap((r) =>
+        CIDRMath.numericRangeToCIDRs(r.start, r.end, version)
+      )
+    );
+  }
+
+  // Every pair (one from each list) that shares addresses, with the shared blocks
+  static findOverlaps(listA: string[], listB: string[]): PrefixOverlap[] {
+    const overlaps: PrefixOverlap[] = [];
+    for (const a of listA) {
+      const setA = PrefixSet.from([a]);
+      for (const b of listB) {
+        const shared = setA.intersect(PrefixSet.from([b]));
+        if (!shared.isEmpty()) {
+          overlaps.push({ a, b, overlap: shared.toCIDRs() });
+        }
+      }
+    }
+    return overlaps;
+  }
+
+  // Pairs within a single list that overlap each other
+  static findConflicts(list: string[]): PrefixOverlap[] {
+    const conflicts: PrefixOverlap[] = [];
+    list.forEach((a, i) => {
+      for (const b of list.slice(i + 1)) {
+        const shared = PrefixSet.from([a]).intersect(PrefixSet.from([b]));
+        if (!shared.isEmpty()) {
+          conflicts.push({ a, b, overlap: shared.toCIDRs() });
+        }
+      }
+    });
+    return conflicts;
+  }
+}
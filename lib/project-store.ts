@@ -0,0 +1,85 @@
+// @/lib/project-store.ts
+
+import type { AllocationConfig } from "./hierarchical-allocator";
+import { PlanCodec, type PlanState } from "./plan-codec";
+
+export interface SavedProject {
+  id: string;
+  name: string;
+  config: AllocationConfig;
+  vlanPrefixes: number[]; // Per-VLAN prefix overrides from the Analysis step
+  updatedAt: string; // ISO timestamp of the last save
+}
+
+const STORAGE_KEY = "ipam-architect.projects";
+
+// Named plans kept in the browser's localStorage, most recently edited first
+export class ProjectStore {
+  static list(): SavedProject[] {
+    return this.read().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  static get(id: string): SavedProject | undefined {
+    return this.read().find((project) => project.id === id);
+  }
+
+  // Creates a new project, or overwrites the one with the given id
+  static save(
+    name: string,
+    config: AllocationConfig,
+    vlanPrefixes: number[],
+    id?: string
+  ): SavedProject {
+    const projects = this.read();
+    const project: SavedProject = {
+      id: id ?? this.newId(),
+      name: name.trim() || "Untitled plan",
+      config,
+      vlanPrefixes,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const index = projects.findIndex((p) => p.id === project.id);
+    if (index >= 0) projects[index] = project;
+    else projects.push(project);
+
+    this.write(projects);
+    return project;
+  }
+
+  static duplicate(id: string): SavedProject {
+    const source = this.get(id);
+    if (!source) throw new Error("Project not found");
+    return this.save(`${source.name} (copy)`, source.config, source.vlanPrefixes);
+  }
+
+  static remove(id: string): void {
+    this.write(this.read().filter((project) => project.id !== id));
+  }
+
+  static toPlan(project: SavedProject): PlanState {
+    return PlanCodec.fromConfig(project.config, project.vlanPrefixes);
+  }
+
+  private static newId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  private static read(): SavedProject[] {
+    if (typeof window === "undefined") return [];
+    try {
+      const data = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]");
+      return Array.isArray(data) ? data : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private static write(projects: SavedProject[]): void {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(projects));
+    } catch {
+      throw new Error("Browser storage is unavailable or full - project was not saved");
+    }
+  }
+}
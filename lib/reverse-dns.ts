@@ -0,0 +1,211 @@
+// @/lib/reverse-dns.ts
+
+import { CIDRMath } from "./cidr-math";
+import { CsvExport } from "./csv-export";
+import type { AllocationResult, HierarchyLevel } from "./hierarchical-allocator";
+import { SitePlan, type SiteWalkOptions } from "./site-plan";
+import type { ExportFile } from "./utils";
+
+export type ReverseZoneLevel = "Supernet" | "Region" | "Territory" | "Site";
+
+export interface ReverseZone {
+  zone: string;
+  cidr: string; // Addresses the zone answers for
+  classless: boolean; // RFC 2317 zone for a block longer than a /24
+  level: ReverseZoneLevel;
+  owner: string; // Hierarchy block the zone belongs to
+  parent?: string; // Enclosing zone in the plan; undefined when delegated from outside
+}
+
+export interface ReverseDnsOptions extends SiteWalkOptions {
+  nameservers: string[];
+  hostmaster: string; // SOA RNAME, e.g. hostmaster.example.net.
+}
+
+export const DEFAULT_REVERSE_DNS_OPTIONS: ReverseDnsOptions = {
+  nameservers: ["ns1.example.net.", "ns2.example.net."],
+  hostmaster: "hostmaster.example.net.",
+};
+
+const TTL = 3600;
+
+export class ReverseDNS {
+  // Every zone for the supernet, regions, territories and sites, highest level
+  // first. A block whose zones coincide with its parent's adds nothing: the
+  // zone stays with the parent. A classless block also needs the /24 zone that
+  // holds its RFC 2317 delegation, which belongs to the parent block.
+  static zones(result: AllocationResult, options: SiteWalkOptions = {}): ReverseZone[] {
+    const zones = new Map<string, ReverseZone>();
+    const add = (
+      cidr: string | undefined,
+      level: ReverseZoneLevel,
+      owner: string,
+      parent: { level: ReverseZoneLevel; owner: string } = { level, owner }
+    ) => {
+      if (!cidr) return;
+      const { ip, prefix, version } = CIDRMath.parseCIDR(cidr);
+      const blocks =
+        version === 4 && prefix > 24
+          ? [{ cidr: `${CIDRMath.getNetworkAddress(ip, 24)}/24`, ...parent }, { cidr, level, owner }]
+          : [{ cidr, level, owner }];
+
+      for (const block of blocks) {
+        for (const zone of CIDRMath.reverseZones(block.cidr)) {
+          if (!zones.has(zone.zone)) zones.set(zone.zone, { ...zone, level: block.level, owner: block.owner });
+        }
+      }
+    };
+
+    // Every tier below a region zones as a territory
+    const addTiers = (parent: HierarchyLevel, level: ReverseZoneLevel) => {
+      for (const tier of parent.children ?? []) {
+        if (tier.metadata?.existing || tier.metadata?.unallocated) continue;
+        add(tier.cidr, "Territory", tier.name, { level, owner: parent.name });
+        add(tier.ipv6?.cidr, "Territory", tier.name);
+        addTiers(tier, "Territory");
+      }
+    };
+
+    const { hierarchy } = result;
+    add(hierarchy.cidr, "Supernet", hierarchy.name);
+    add(hierarchy.ipv6?.cidr, "Supernet", hierarchy.name);
+
+    for (const region of hierarchy.children ?? []) {
+      if (region.metadata?.unallocated || region.metadata?.excluded) continue;
+      add(region.cidr, "Region", region.name, { level: "Supernet", owner: hierarchy.name });
+      add(region.ipv6?.cidr, "Region", region.name);
+
+      addTiers(region, "Region");
+    }
+
+    for (const site of SitePlan.sites(result, options)) {
+      const level = site.territory === site.region ? "Region" : "Territory";
+      add(site.cidr, "Site", site.name, { level, owner: site.territory.name });
+      add(site.ipv6Cidr, "Site", site.name);
+    }
+
+    for (const zone of zones.values()) zone.parent = this.parentZone(zone, zones);
+    return [...zones.values()];
+  }
+
+  // Walks up from the zone's block one prefix length at a time and returns the
+  // first enclosing zone the plan defines
+  private static parentZone(zone: ReverseZone, zones: Map<string, ReverseZone>): string | undefined {
+    const { ip, prefix, version } = CIDRMath.parseCIDR(zone.cidr);
+    const step = version === 6 ? 4 : 8;
+
+    for (let p = prefix - 1; p >= 0; p--) {
+      if (p % step !== 0 && !(version === 4 && p > 24)) continue;
+      const [candidate] = CIDRMath.reverseZones(`${CIDRMath.getNetworkAddress(ip, p)}/${p}`);
+      if (zones.has(candidate.zone)) return candidate.zone;
+    }
+    return undefined;
+  }
+
+  // Owner name of a child zone relative to its parent's origin
+  private static relative(zone: string, origin: string): string {
+    return zone.endsWith(`.${origin}`) ? zone.slice(0, -(origin.length + 1)) : `${zone}.`;
+  }
+
+  // The zone whose namespace holds a zone's name (one label up). For classless
+  // zones this is the /24 zone, even when their addresses sit in a larger
+  // classless block.
+  private static nameParent(zone: string): string {
+    return zone.slice(zone.indexOf(".") + 1);
+  }
+
+  // Records a zone holds for a child: NS when the child's name is inside the
+  // zone, and the RFC 2317 CNAMEs when the child's addresses are
+  static delegation(zone: ReverseZone, origin: string, nameservers: string[]): string[] {
+    const lines = [`; ${zone.owner} (${zone.cidr})`];
+    if (this.nameParent(zone.zone) === origin || !zone.classless) {
+      const owner = this.relative(zone.zone, origin);
+      lines.push(...nameservers.map((ns) => `${owner}\tIN NS\t${ns}`));
+    }
+
+    if (zone.classless && zone.parent === origin) {
+      const { ip, prefix } = CIDRMath.parseCIDR(zone.cidr);
+      const first = Number(ip.split(".")[3]);
+      const last = first + Number(CIDRMath.subnetAddressCount(prefix)) - 1;
+      lines.push(`$GENERATE ${first}-${last} $ IN CNAME $.${zone.zone}.`);
+    }
+    return lines;
+  }
+
+  // BIND zone file: SOA and NS at the apex, delegations for child zones and a
+  // placeholder for host PTR records
+  static zoneFile(zone: ReverseZone, children: ReverseZone[], options: ReverseDnsOptions): string {
+    const today = new Date();
+    const serial = `${today.getFullYear()}${String(today.getMonth() + 1).padStart(2, "0")}${String(today.getDate()).padStart(2, "0")}01`;
+    const [primary = "ns1.example.net."] = options.nameservers;
+
+    const lines = [
+      `; ${zone.zone} - ${zone.level} ${zone.owner} (${zone.cidr})`,
+      `$ORIGIN ${zone.zone}.`,
+      `$TTL ${TTL}`,
+      `@\tIN SOA\t${primary} ${options.hostmaster} (`,
+      `\t\t${serial} ; serial`,
+      `\t\t3600       ; refresh`,
+      `\t\t900        ; retry`,
+      `\t\t1209600    ; expire`,
+      `\t\t300 )      ; negative TTL`,
+      ...options.nameservers.map((ns) => `@\tIN NS\t${ns}`),
+    ];
+
+    if (children.length > 0) {
+      lines.push("", "; Delegations");
+      for (const child of children) lines.push(...this.delegation(child, zone.zone, options.nameservers));
+    }
+
+    // Classless zones are reached through CNAMEs, so their owners are bare last octets
+    const { ip, prefix } = CIDRMath.parseCIDR(zone.cidr);
+    const example = CIDRMath.getHostRange(ip, prefix).first;
+    const owner = zone.classless
+      ? example.split(".")[3]
+      : this.relative(CIDRMath.reversePointer(example), zone.zone);
+    lines.push("", "; Host records", `; ${owner}\tIN PTR\tgateway.example.net.`);
+    return lines.join("\n") + "\n";
+  }
+
+  static namedConf(zones: ReverseZone[]): string {
+    return (
+      zones
+        .map((z) => `zone "${z.zone}" {\n\ttype primary;\n\tfile "db.${z.zone}";\n};`)
+        .join("\n\n") + "\n"
+    );
+  }
+
+  // zones.csv index, named.conf fragment and one zone file per zone
+  static files(result: AllocationResult, options: ReverseDnsOptions): ExportFile[] {
+    const zones = this.zones(result, options);
+    const names = new Set(zones.map((z) => z.zone));
+    const children = new Map<string, ReverseZone[]>();
+    const addChild = (parent: string, zone: ReverseZone) => {
+      if (!children.has(parent)) children.set(parent, []);
+      children.get(parent)!.push(zone);
+    };
+    for (const zone of zones) {
+      if (!zone.parent) continue;
+      addChild(zone.parent, zone);
+      const nameParent = this.nameParent(zone.zone);
+      if (zone.classless && nameParent !== zone.parent && names.has(nameParent)) addChild(nameParent, zone);
+    }
+
+    const index = [
+      ["zone", "cidr", "level", "owner", "parent_zone", "classless"],
+      ...zones.map((z) => [z.zone, z.cidr, z.level, z.owner, z.parent ?? "", z.classless ? "yes" : "no"]),
+    ]
+      .map((row) => row.map((field) => CsvExport.escape(field)).join(","))
+      .join("\n");
+
+    return [
+      { name: "zones.csv", content: index + "\n", mimeType: "text/csv" },
+      { name: "named.conf.zones", content: this.namedConf(zones), mimeType: "text/plain" },
+      ...zones.map((zone) => ({
+        name: `db.${zone.zone}`,
+        content: this.zoneFile(zone, children.get(zone.zone) ?? [], options),
+        mimeType: "text/plain",
+      })),
+    ];
+  }
+}
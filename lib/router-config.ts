@@ -0,0 +1,238 @@
+// @/lib/router-config.ts
+
+import { CIDRMath, type IPVersion } from "./cidr-math";
+import type { PlannedVlan } from "./site-plan";
+
+export type RouterVendor = "ios-xe" | "junos" | "fortigate" | "vyos";
+
+export interface RouterVendorInfo {
+  id: RouterVendor;
+  label: string;
+  // Default parent port; empty means VLAN interfaces (SVI / irb) instead of sub-interfaces
+  parentInterface: string;
+}
+
+export const ROUTER_VENDORS: RouterVendorInfo[] = [
+  { id: "ios-xe", label: "Cisco IOS-XE", parentInterface: "" },
+  { id: "junos", label: "Juniper Junos", parentInterface: "" },
+  { id: "fortigate", label: "FortiGate", parentInterface: "port1" },
+  { id: "vyos", label: "VyOS", parentInterface: "eth1" },
+];
+
+export interface RouterSite {
+  name: string;
+  cidr: string;
+  ipv6Cidr?: string;
+  vlans: PlannedVlan[];
+}
+
+export interface RouterConfigOptions {
+  parentInterface?: string;
+  dhcpRelay?: string[]; // Relay targets; each VLAN uses the ones matching its address families
+}
+
+interface InterfaceAddress {
+  version: IPVersion;
+  gateway: string;
+  prefix: number;
+}
+
+const RELAY_GROUP = "IPAM-RELAY";
+
+export class RouterConfig {
+  static netmask(prefix: number): string {
+    return CIDRMath.numberToIp(CIDRMath.prefixToMask(prefix, 4), 4);
+  }
+
+  // Gateway is the first host of each VLAN, for the IPv4 (or IPv6-only) prefix
+  // and the mirrored /64 of dual-stack plans
+  static addresses(vlan: PlannedVlan): InterfaceAddress[] {
+    const addresses: InterfaceAddress[] = [
+      { version: CIDRMath.ipVersion(vlan.network), gateway: vlan.gateway, prefix: vlan.prefix },
+    ];
+    if (vlan.ipv6Cidr) {
+      const { ip, prefix } = CIDRMath.parseCIDR(vlan.ipv6Cidr);
+      addresses.push({ version: 6, gateway: CIDRMath.getHostRange(ip, prefix).first, prefix });
+    }
+    return addresses;
+  }
+
+  static generate(
+    vendor: RouterVendor,
+    site: RouterSite,
+    options: RouterConfigOptions = {}
+  ): string {
+    const relays = (options.dhcpRelay ?? []).map((ip) => ip.trim()).filter(Boolean);
+    const relay = {
+      4: relays.filter((ip) => CIDRMath.ipVersion(ip) === 4),
+      6: relays.filter((ip) => CIDRMath.ipVersion(ip) === 6),
+    };
+    const parent = (options.parentInterface ?? "").trim();
+    const heading = `${site.name} ${[site.cidr, site.ipv6Cidr].filter(Boolean).join(" ")}`;
+
+    switch (vendor) {
+      case "ios-xe":
+        return this.iosXe(site, heading, parent, relay);
+      case "junos":
+        return this.junos(site, heading, parent, relay);
+      case "fortigate":
+        return this.fortigate(site, heading, parent || "port1", relay);
+      case "vyos":
+        return this.vyos(site, heading, parent || "eth1", relay);
+    }
+  }
+
+  private static iosXe(
+    site: RouterSite,
+    heading: string,
+    parent: string,
+    relay: Record<IPVersion, string[]>
+  ): string {
+    const lines = [`! ${heading}`, "!"];
+
+    for (const vlan of site.vlans) {
+      const addresses = this.addresses(vlan);
+      if (parent) {
+        lines.push(`interface ${parent}.${vlan.vlanId}`, ` encapsulation dot1Q ${vlan.vlanId}`);
+      } else {
+        lines.push(`vlan ${vlan.vlanId}`, ` name VLAN${vlan.index}`, "!", `interface Vlan${vlan.vlanId}`);
+      }
+      lines.push(` description ${site.name} VLAN${vlan.index}`);
+      for (const address of addresses) {
+        if (address.version === 4) {
+          lines.push(` ip address ${address.gateway} ${this.netmask(address.prefix)}`);
+          relay[4].forEach((ip) => lines.push(` ip helper-address ${ip}`));
+        } else {
+          lines.push(` ipv6 address ${address.gateway}/${address.prefix}`);
+          relay[6].forEach((ip) => lines.push(` ipv6 dhcp relay destination ${ip}`));
+        }
+      }
+      lines.push(" no shutdown", "!");
+    }
+
+    return lines.join("\n") + "\n";
+  }
+
+  private static junos(
+    site: RouterSite,
+    heading: string,
+    parent: string,
+    relay: Record<IPVersion, string[]>
+  ): string {
+    const lines = [`# ${heading}`];
+    const relayInterfaces: Record<IPVersion, string[]> = { 4: [], 6: [] };
+    if (parent) lines.push(`set interfaces ${parent} vlan-tagging`);
+
+    for (const vlan of site.vlans) {
+      const unit = parent ? `${parent} unit ${vlan.vlanId}` : `irb unit ${vlan.vlanId}`;
+      const name = parent ? `${parent}.${vlan.vlanId}` : `irb.${vlan.vlanId}`;
+      if (parent) {
+        lines.push(`set interfaces ${unit} vlan-id ${vlan.vlanId}`);
+      } else {
+        lines.push(
+          `set vlans VLAN${vlan.vlanId} vlan-id ${vlan.vlanId}`,
+          `set vlans VLAN${vlan.vlanId} l3-interface ${name}`
+        );
+      }
+      lines.push(`set interfaces ${unit} description "${site.name} VLAN${vlan.index}"`);
+      for (const address of this.addresses(vlan)) {
+        const family = address.version === 4 ? "inet" : "inet6";
+        lines.push(`set interfaces ${unit} family ${family} address ${address.gateway}/${address.prefix}`);
+        relayInterfaces[address.version].push(name);
+      }
+    }
+
+    // One server group per family, attached to every VLAN interface
+    for (const version of [4, 6] as const) {
+      if (relay[version].length === 0 || relayInterfaces[version].length === 0) continue;
+      const base = version === 4 ? "set forwarding-options dhcp-relay" : "set forwarding-options dhcp-relay dhcpv6";
+      const group = version === 4 ? RELAY_GROUP : `${RELAY_GROUP}-V6`;
+      lines.push(
+        `${base} server-group ${group} ${relay[version].join(" ")}`,
+        `${base} group ${group} active-server-group ${group}`,
+        ...relayInterfaces[version].map((name) => `${base} group ${group} interface ${name}`)
+      );
+    }
+
+    return lines.join("\n") + "\n";
+  }
+
+  private static fortigate(
+    site: RouterSite,
+    heading: string,
+    parent: string,
+    relay: Record<IPVersion, string[]>
+  ): string {
+    const quoted = (ips: string[]) => ips.map((ip) => `"${ip}"`).join(" ");
+    const lines = [`# ${heading}`, "config system interface"];
+
+    for (const vlan of site.vlans) {
+      const addresses = this.addresses(vlan);
+      const v4 = addresses.find((a) => a.version === 4);
+      const v6 = addresses.find((a) => a.version === 6);
+
+      lines.push(
+        `    edit "vlan${vlan.vlanId}"`,
+        `        set vdom "root"`,
+        `        set interface "${parent}"`,
+        `        set vlanid ${vlan.vlanId}`,
+        `        set role lan`,
+        `        set description "${site.name} VLAN${vlan.index}"`,
+        `        set allowaccess ping`
+      );
+      if (v4) {
+        lines.push(`        set ip ${v4.gateway} ${this.netmask(v4.prefix)}`);
+        if (relay[4].length > 0) {
+          lines.push(`        set dhcp-relay-service enable`, `        set dhcp-relay-ip ${quoted(relay[4])}`);
+        }
+      }
+      if (v6) {
+        lines.push(`        config ipv6`, `            set ip6-address ${v6.gateway}/${v6.prefix}`);
+        if (relay[6].length > 0) {
+          lines.push(`            set dhcp6-relay-service enable`, `            set dhcp6-relay-ip ${quoted(relay[6])}`);
+        }
+        lines.push(`        end`);
+      }
+      lines.push(`    next`);
+    }
+
+    lines.push("end");
+    return lines.join("\n") + "\n";
+  }
+
+  private static vyos(
+    site: RouterSite,
+    heading: string,
+    parent: string,
+    relay: Record<IPVersion, string[]>
+  ): string {
+    const lines = [`# ${heading}`];
+    const relayInterfaces: Record<IPVersion, string[]> = { 4: [], 6: [] };
+
+    for (const vlan of site.vlans) {
+      const vif = `set interfaces ethernet ${parent} vif ${vlan.vlanId}`;
+      lines.push(`${vif} description '${site.name} VLAN${vlan.index}'`);
+      for (const address of this.addresses(vlan)) {
+        lines.push(`${vif} address '${address.gateway}/${address.prefix}'`);
+        relayInterfaces[address.version].push(`${parent}.${vlan.vlanId}`);
+      }
+    }
+
+    // The relay also needs the uplink towards the servers, which is not part of the plan
+    if (relay[4].length > 0 && relayInterfaces[4].length > 0) {
+      lines.push(
+        ...relayInterfaces[4].map((name) => `set service dhcp-relay listen-interface '${name}'`),
+        ...relay[4].map((ip) => `set service dhcp-relay server '${ip}'`),
+        `# set service dhcp-relay upstream-interface '<uplink>'`
+      );
+    }
+    if (relay[6].length > 0 && relayInterfaces[6].length > 0) {
+      lines.push(
+        ...relayInterfaces[6].map((name) => `set service dhcpv6-relay listen-interface '${name}'`),
+        ...relay[6].map((ip) => `# set service dhcpv6-relay upstream-interface '<uplink>' address '${ip}'`)
+      );
+    }
+
+    return lines.join("\n") + "\n";
+  }
+}
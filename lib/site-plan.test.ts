@@ -0,0 +1,37 @@
+// @/lib/site-plan.test.ts
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { HierarchicalAllocator } from "./hierarchical-allocator";
+import { SitePlan } from "./site-plan";
+
+test("keeps user blocks named Unallocated as site pools", () => {
+  const result = new HierarchicalAllocator({
+    supernet: "10.0.0.0/9",
+    regionBiases: [
+      { name: "Unallocated", ratio: 3 },
+      { name: "B", ratio: 1, territories: [{ name: "Unallocated" }, { name: "T2" }] },
+      { name: "C", ratio: 1 },
+    ],
+    subRegionsPerRegion: 2,
+    vlansPerSite: 2,
+    vlanSize: 24,
+    totalSitesNeeded: 10,
+    growthMultiplier: 3,
+  }).allocate();
+
+  assert.deepEqual(
+    SitePlan.pools(result).map(({ region, territory }) => `${region.name}/${territory.name}`),
+    [
+      "Unallocated/Unallocated Territory 1",
+      "Unallocated/Unallocated Territory 2",
+      "B/Unallocated",
+      "B/T2",
+      "C/C Territory 1",
+      "C/C Territory 2",
+    ]
+  );
+  // The free rest of the 3:1:1 split is still generated and left out
+  const free = result.hierarchy.children?.filter((region) => region.metadata?.unallocated);
+  assert.deepEqual(free?.map((region) => region.cidr), ["10.96.0.0/11"]);
+});
@@ -0,0 +1,342 @@
+// @/lib/site-plan.ts
+
+import { CIDRMath } from "./cidr-math";
+import { DualStackMapper } from "./dual-stack";
+import type { AllocationResult, HierarchyLevel } from "./hierarchical-allocator";
+
+// A block that sites are carved from, with the region it belongs to. With
+// deeper level templates the block is a tier below the territories; without
+// any tiers it is the region itself.
+export interface SitePool {
+  region: HierarchyLevel;
+  territory: HierarchyLevel;
+  territoryIndex: number; // 1-based within the region
+}
+
+export interface PlannedSite extends SitePool {
+  index: number; // 1-based site slot within the territory
+  name: string;
+  cidr: string;
+  network: string;
+  prefix: number;
+  status: "planned" | "existing";
+  ipv6Cidr?: string;
+  tier?: string; // Site tier of the pool, when the plan uses tiers
+}
+
+export interface PlannedVlan {
+  index: number; // 1-based
+  vlanId: number; // 802.1Q tag
+  cidr: string;
+  network: string;
+  broadcast: string;
+  gateway: string; // First usable host
+  addressRange: string;
+  prefix: number;
+  usableHosts: bigint;
+  ipv6Cidr?: string;
+}
+
+export interface SiteWalkOptions {
+  // Planned sites to take from each territory; existing sites are always included
+  perTerritory?: number;
+}
+
+export interface VlanLayout {
+  vlans: PlannedVlan[];
+  usedAddresses: bigint; // From the site base to the end of the last VLAN
+}
+
+// VLAN n of the site template is tagged n * VLAN_ID_STEP (10, 20, 30, ...)
+export const VLAN_ID_STEP = 10;
+
+export class SitePlan {
+  static mapper(result: AllocationResult): DualStackMapper | undefined {
+    return result.dualStack
+      ? new DualStackMapper(
+          result.hierarchy.cidr,
+          result.dualStack.ipv6Supernet,
+          result.dualStack.vlanSize
+        )
+      : undefined;
+  }
+
+  // Every block that holds sites, in hierarchy order: the blocks of the
+  // deepest tier, whose only children are pinned existing sites. Unallocated
+  // rests of a split hold none.
+  static pools(result: AllocationResult): SitePool[] {
+    return (result.hierarchy.children ?? [])
+      .filter((r) => !r.metadata?.unallocated && !r.metadata?.excluded)
+      .flatMap((region) =>
+        this.leaves(region).map((territory, i) => ({
+          region,
+          territory,
+          territoryIndex: i + 1,
+        }))
+      );
+  }
+
+  private static leaves(level: HierarchyLevel): HierarchyLevel[] {
+    const tiers = (level.children ?? []).filter((c) => !c.metadata?.existing && !c.metadata?.unallocated);
+    return tiers.length > 0 ? tiers.flatMap((tier) => this.leaves(tier)) : [level];
+  }
+
+  // Stable identifier for a region in generated files: its code, or its name
+  static regionKey(region: HierarchyLevel): string {
+    return (
+      region.metadata?.code ??
+      region.name.toUpperCase().replace(/[^A-Z0-9]+/g, "-").replace(/^-+|-+$/g, "")
+    );
+  }
+
+  // Site block of a pool: its site tier's, or the plan's standard block
+  static sitePrefix(result: AllocationResult, pool: SitePool): number {
+    return pool.territory.metadata?.sitePrefix ?? result.sitePrefixRecommendation;
+  }
+
+  // VLAN template of a pool's sites: its site tier's, or the standard template
+  static poolVlanPrefixes(result: AllocationResult, pool: SitePool, standard: number[]): number[] {
+    const tier = result.siteTiers?.find((t) => t.name === pool.territory.metadata?.siteTier);
+    return tier ? this.vlanPrefixes(tier.vlansPerSite, tier.vlanSize) : standard;
+  }
+
+  // Region key plus the territory's code, or T<n> for numbered territories.
+  // A region that holds its sites directly is keyed by itself.
+  static territoryKey(pool: SitePool): string {
+    if (pool.territory === pool.region) return this.regionKey(pool.region);
+    return `${this.regionKey(pool.region)}-${pool.territory.metadata?.code ?? `T${pool.territoryIndex}`}`;
+  }
+
+  // Site names follow the UI format: <region code>-S<number>, numbered per region
+  static siteName(region: HierarchyLevel, siteNumber: number | bigint, width = 3): string {
+    return `${this.regionKey(region)}-S${String(siteNumber).padStart(width, "0")}`;
+  }
+
+  // Walks every site slot of every territory lazily. Slots covered by pinned
+  // existing sites yield the existing site instead of a planned one.
+  static *sites(
+    result: AllocationResult,
+    options: SiteWalkOptions = {}
+  ): Generator<PlannedSite> {
+    const mapper = this.mapper(result);
+    const regionCounters = new Map<string, number>();
+    const width = Math.max(3, String(result.totalSitesSupported).length);
+
+    for (const pool of this.pools(result)) {
+      const { region, territory } = pool;
+      const sitePrefix = this.sitePrefix(result, pool);
+      const tier = territory.metadata?.siteTier;
+      const { ip, prefix, version } = CIDRMath.parseCIDR(territory.cidr);
+      const base = CIDRMath.ipToNumber(ip);
+      const siteSize = CIDRMath.subnetAddressCount(sitePrefix, version);
+      const slots = CIDRMath.subnetCount(prefix, sitePrefix);
+      const pinned = (territory.children ?? []).filter((c) => c.metadata?.existing);
+      let next = 0;
+      let planned = 0;
+
+      for (let slot = BigInt(0); slot < slots; slot++) {
+        const start = base + slot * siteSize;
+        const end = start + siteSize - BigInt(1);
+
+        while (next < pinned.length && CIDRMath.ipToNumber(pinned[next].network) <= end) {
+          const site = pinned[next++];
+          yield {
+            ...pool,
+            index: Number(slot) + 1,
+            name: site.name,
+            cidr: site.cidr,
+            network: site.network,
+            prefix: site.prefix,
+            status: "existing",
+            ipv6Cidr: mapper?.mapPrefix(site.cidr),
+            tier,
+          };
+        }
+        const occupied = pinned.some((site) => {
+          const siteStart = CIDRMath.ipToNumber(site.network);
+          return siteStart <= end && siteStart + site.totalAddresses - BigInt(1) >= start;
+        });
+        if (occupied) continue;
+        if (options.perTerritory !== undefined && planned >= options.perTerritory) {
+          if (next >= pinned.length) break;
+          continue;
+        }
+        planned++;
+
+        const siteNumber = (regionCounters.get(region.id) ?? 0) + 1;
+        regionCounters.set(region.id, siteNumber);
+        const network = CIDRMath.numberToIp(start, version);
+        const cidr = `${network}/${sitePrefix}`;
+
+        yield {
+          ...pool,
+          index: Number(slot) + 1,
+          name: this.siteName(region, siteNumber, width),
+          cidr,
+          network,
+          prefix: sitePrefix,
+          status: "planned",
+          ipv6Cidr: mapper?.mapPrefix(cidr),
+          tier,
+        };
+      }
+    }
+  }
+
+  // A single slot (1-based) of a territory, named as in the full walk. The slot
+  // address is computed directly; only the pools before it in its region are
+  // visited, to count the planned sites that precede it.
+  static findSite(
+    result: AllocationResult,
+    territoryId: string,
+    index: number
+  ): PlannedSite | undefined {
+    const pools = this.pools(result);
+    const pool = pools.find((p) => p.territory.id === territoryId);
+    if (!pool) return undefined;
+
+    const { territory } = pool;
+    const sitePrefix = this.sitePrefix(result, pool);
+    const { ip, prefix, version } = CIDRMath.parseCIDR(territory.cidr);
+    if (!Number.isInteger(index) || index < 1 || BigInt(index) > CIDRMath.subnetCount(prefix, sitePrefix)) {
+      return undefined;
+    }
+
+    const mapper = this.mapper(result);
+    const siteSize = CIDRMath.subnetAddressCount(sitePrefix, version);
+    const start = CIDRMath.ipToNumber(ip) + BigInt(index - 1) * siteSize;
+    const end = start + siteSize - BigInt(1);
+    const pinned = (territory.children ?? []).filter((c) => c.metadata?.existing);
+    const tier = territory.metadata?.siteTier;
+
+    // The walk yields an existing site at the slot it starts in
+    const existing = pinned.find((site) => {
+      const siteStart = CIDRMath.ipToNumber(site.network);
+      return siteStart >= start && siteStart <= end;
+    });
+    if (existing) {
+      return {
+        ...pool,
+        index,
+        name: existing.name,
+        cidr: existing.cidr,
+        network: existing.network,
+        prefix: existing.prefix,
+        status: "existing",
+        ipv6Cidr: mapper?.mapPrefix(existing.cidr),
+        tier,
+      };
+    }
+    const occupied = pinned.some((site) => {
+      const siteStart = CIDRMath.ipToNumber(site.network);
+      return siteStart <= end && siteStart + site.totalAddresses - BigInt(1) >= start;
+    });
+    if (occupied) return undefined;
+
+    let before = BigInt(0);
+    for (const other of pools) {
+      if (other === pool) break;
+      if (other.region === pool.region) before += this.freeSlots(result, other);
+    }
+    before += this.freeSlots(result, pool, BigInt(index - 1));
+
+    const network = CIDRMath.numberToIp(start, version);
+    const cidr = `${network}/${sitePrefix}`;
+    return {
+      ...pool,
+      index,
+      name: this.siteName(pool.region, before + BigInt(1), Math.max(3, String(result.totalSitesSupported).length)),
+      cidr,
+      network,
+      prefix: sitePrefix,
+      status: "planned",
+      ipv6Cidr: mapper?.mapPrefix(cidr),
+      tier,
+    };
+  }
+
+  // Slots of a pool, among its first `limit`, that no pinned existing site touches
+  private static freeSlots(result: AllocationResult, pool: SitePool, limit?: bigint): bigint {
+    const { territory } = pool;
+    const sitePrefix = this.sitePrefix(result, pool);
+    const { ip, prefix, version } = CIDRMath.parseCIDR(territory.cidr);
+    const base = CIDRMath.ipToNumber(ip);
+    const siteSize = CIDRMath.subnetAddressCount(sitePrefix, version);
+    const slots = limit ?? CIDRMath.subnetCount(prefix, sitePrefix);
+
+    // Pinned sites are sorted by address, so their slot ranges merge in one pass
+    let occupied = BigInt(0);
+    let covered = BigInt(-1);
+    for (const site of territory.children ?? []) {
+      if (!site.metadata?.existing) continue;
+      const offset = CIDRMath.ipToNumber(site.network) - base;
+      const first = offset / siteSize;
+      let last = (offset + site.totalAddresses - BigInt(1)) / siteSize;
+      if (first >= slots) break;
+      if (last >= slots) last = slots - BigInt(1);
+      const from = first > covered ? first : covered + BigInt(1);
+      if (last >= from) {
+        occupied += last - from + BigInt(1);
+        covered = last;
+      }
+    }
+    return slots - occupied;
+  }
+
+  // Prefix length for each VLAN of the site template, falling back to the default size
+  static vlanPrefixes(
+    vlansPerSite: number,
+    defaultPrefix: number,
+    overrides: number[] = []
+  ): number[] {
+    return Array.from(
+      { length: vlansPerSite },
+      (_, i) => overrides[i] ?? defaultPrefix
+    );
+  }
+
+  // Packs VLANs into a site in template order, aligning each to its own size.
+  // Stops at the first VLAN that no longer fits inside the site block.
+  static layoutVlans(
+    siteCidr: string,
+    vlanPrefixes: number[],
+    mapper?: DualStackMapper
+  ): VlanLayout {
+    const { ip, prefix: sitePrefix, version } = CIDRMath.parseCIDR(siteCidr);
+    const siteBase = CIDRMath.ipToNumber(ip);
+    const siteEnd =
+      siteBase + CIDRMath.subnetAddressCount(sitePrefix, version) - BigInt(1);
+    const vlans: PlannedVlan[] = [];
+    let current = siteBase;
+
+    for (let i = 0; i < vlanPrefixes.length; i++) {
+      const prefix = vlanPrefixes[i];
+      const size = CIDRMath.subnetAddressCount(prefix, version);
+
+      let network = current;
+      const remainder = network % size;
+      if (remainder !== BigInt(0)) {
+        network = network - remainder + size;
+      }
+      if (network + size - BigInt(1) > siteEnd) break;
+
+      const address = CIDRMath.numberToIp(network, version);
+      const { first, last } = CIDRMath.getHostRange(address, prefix);
+      vlans.push({
+        index: i + 1,
+        vlanId: (i + 1) * VLAN_ID_STEP,
+        cidr: `${address}/${prefix}`,
+        network: address,
+        broadcast: CIDRMath.getBroadcastAddress(address, prefix),
+        gateway: first,
+        addressRange: `${first} - ${last}`,
+        prefix,
+        usableHosts: CIDRMath.usableHosts(prefix, version),
+        ipv6Cidr: mapper?.mapVlan(siteCidr, i),
+      });
+      current = network + size;
+    }
+
+    return { vlans, usedAddresses: current - siteBase };
+  }
+}
@@ -0,0 +1,37 @@
+// @/lib/site-tier-list.ts
+
+import type { SiteTier } from "./hierarchical-allocator";
+
+// One-line site tiers as typed in the form: comma-separated tiers of name,
+// VLANs per site, VLAN size and sites needed, e.g. "HQ:40:24:5, Kiosk:2:28:1000".
+// Blank keeps a single standard site template.
+export class SiteTierList {
+  static parse(text: string): SiteTier[] | undefined {
+    const trimmed = text.trim();
+    if (!trimmed) return undefined;
+
+    return trimmed
+      .split(/[,\n]/)
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const [name, vlans, size, sites] = entry.split(":").map((part) => part.trim());
+        if (!name) throw new Error(`Site tier "${entry}" needs a name`);
+
+        const values = [vlans, size?.replace(/^\//, ""), sites].map((v) => (v ? Number(v) : NaN));
+        if (values.some((v) => !Number.isInteger(v) || v < 1)) {
+          throw new Error(
+            `Site tier "${name}" needs VLANs per site, a VLAN size and a site count, e.g. ${name}:4:24:100`
+          );
+        }
+
+        const [vlansPerSite, vlanSize, sitesNeeded] = values;
+        return { name, vlansPerSite, vlanSize, sitesNeeded };
+      });
+  }
+
+  static format(tiers?: SiteTier[]): string {
+    if (!tiers) return "";
+    return tiers.map((t) => `${t.name}:${t.vlansPerSite}:${t.vlanSize}:${t.sitesNeeded}`).join(", ");
+  }
+}
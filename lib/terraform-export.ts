@@ -0,0 +1,296 @@
+// @/lib/terraform-export.ts
+
+import { CIDRMath } from "./cidr-math";
+import type { AllocationResult, HierarchyLevel } from "./hierarchical-allocator";
+import { SitePlan } from "./site-plan";
+import type { ExportFile } from "./utils";
+
+export interface TerraformVariables {
+  supernet: string;
+  supernet_ipv6: string | null;
+  site_prefix: number;
+  regions: Record<string, { name: string; cidr: string; ipv6_cidr: string | null }>;
+  territories: Record<
+    string,
+    {
+      region: string;
+      name: string;
+      cidr: string;
+      ipv6_cidr: string | null;
+      site_count: number;
+      site_prefix: number;
+      tier: string | null;
+      pinned_slots: Array<[first: number, last: number]>;
+    }
+  >;
+  vlan_template: Array<{ vlan: number; newbits: number; netnum: number }>;
+  tier_vlan_templates: Record<string, TerraformVariables["vlan_template"]>;
+  existing_sites: Record<string, { territory: string; cidr: string }>;
+}
+
+export class TerraformExport {
+  static variables(result: AllocationResult, vlanPrefixes: number[]): TerraformVariables {
+    const sitePrefix = result.sitePrefixRecommendation;
+    const vars: TerraformVariables = {
+      supernet: result.hierarchy.cidr,
+      supernet_ipv6: result.hierarchy.ipv6?.cidr ?? null,
+      site_prefix: sitePrefix,
+      regions: {},
+      territories: {},
+      vlan_template: this.vlanTemplate(result, vlanPrefixes, sitePrefix),
+      tier_vlan_templates: {},
+      existing_sites: {},
+    };
+
+    for (const tier of result.siteTiers ?? []) {
+      vars.tier_vlan_templates[tier.name] = this.vlanTemplate(
+        result,
+        SitePlan.vlanPrefixes(tier.vlansPerSite, tier.vlanSize),
+        tier.sitePrefix
+      );
+    }
+
+    for (const pool of SitePlan.pools(result)) {
+      const regionKey = SitePlan.regionKey(pool.region);
+      const territoryKey = SitePlan.territoryKey(pool);
+
+      vars.regions[regionKey] = {
+        name: pool.region.name,
+        cidr: pool.region.cidr,
+        ipv6_cidr: pool.region.ipv6?.cidr ?? null,
+      };
+      vars.territories[territoryKey] = {
+        region: regionKey,
+        name: pool.territory.name,
+        cidr: pool.territory.cidr,
+        ipv6_cidr: pool.territory.ipv6?.cidr ?? null,
+        site_count: pool.territory.metadata?.sitesCapacity ?? 0,
+        site_prefix: SitePlan.sitePrefix(result, pool),
+        tier: pool.territory.metadata?.siteTier ?? null,
+        pinned_slots: this.pinnedSlots(pool.territory, SitePlan.sitePrefix(result, pool)),
+      };
+      for (const site of pool.territory.children ?? []) {
+        if (site.metadata?.existing) {
+          vars.existing_sites[site.name] = { territory: territoryKey, cidr: site.cidr };
+        }
+      }
+    }
+
+    return vars;
+  }
+
+  // 1-based site slot ranges held by existing sites, so lookups can refuse them
+  private static pinnedSlots(
+    territory: HierarchyLevel,
+    sitePrefix: number
+  ): TerraformVariables["territories"][string]["pinned_slots"] {
+    const { ip, version } = CIDRMath.parseCIDR(territory.cidr);
+    const base = CIDRMath.ipToNumber(ip);
+    const siteSize = CIDRMath.subnetAddressCount(sitePrefix, version);
+
+    return (territory.children ?? [])
+      .filter((site) => site.metadata?.existing)
+      .map((site) => {
+        const start = CIDRMath.ipToNumber(site.network) - base;
+        const end = start + site.totalAddresses - BigInt(1);
+        return [Number(start / siteSize) + 1, Number(end / siteSize) + 1];
+      });
+  }
+
+  // VLAN positions relative to any site, as cidrsubnet(site_cidr, newbits, netnum)
+  // arguments. Every site is aligned to its own size, so the offsets are shared.
+  private static vlanTemplate(
+    result: AllocationResult,
+    vlanPrefixes: number[],
+    sitePrefix: number
+  ): TerraformVariables["vlan_template"] {
+    const { ip, version } = CIDRMath.parseCIDR(result.hierarchy.cidr);
+    const siteCidr = `${CIDRMath.getNetworkAddress(ip, sitePrefix)}/${sitePrefix}`;
+    const siteBase = CIDRMath.ipToNumber(CIDRMath.parseCIDR(siteCidr).ip);
+
+    return SitePlan.layoutVlans(siteCidr, vlanPrefixes).vlans.map((vlan) => ({
+      vlan: vlan.index,
+      newbits: vlan.prefix - sitePrefix,
+      netnum: Number(
+        (CIDRMath.ipToNumber(vlan.network) - siteBase) /
+          CIDRMath.subnetAddressCount(vlan.prefix, version)
+      ),
+    }));
+  }
+
+  static tfvarsJSON(result: AllocationResult, vlanPrefixes: number[]): string {
+    return JSON.stringify(this.variables(result, vlanPrefixes), null, 2) + "\n";
+  }
+
+  // Module with the variable declarations, CIDR maps and a site lookup:
+  // list territories and site indexes in site_lookups and read them from "sites"
+  static module(result: AllocationResult): string {
+    return `# Generated by IPAM Architect for ${result.hierarchy.cidr}.
+# Plan data lives in ipam.auto.tfvars.json; regenerate both files together.
+
+variable "supernet" {
+  type = string
+}
+
+variable "supernet_ipv6" {
+  description = "Dual-stack IPv6 supernet, or null for single-stack plans"
+  type        = string
+  default     = null
+}
+
+variable "site_prefix" {
+  description = "Prefix length of a standard site block; site tier territories set their own"
+  type        = number
+}
+
+variable "regions" {
+  type = map(object({
+    name      = string
+    cidr      = string
+    ipv6_cidr = string
+  }))
+}
+
+variable "territories" {
+  description = "Keyed <region>-T<n>; site_count is the number of sites the territory can hold, pinned_slots the [first, last] site indexes existing sites hold"
+  type = map(object({
+    region       = string
+    name         = string
+    cidr         = string
+    ipv6_cidr    = string
+    site_count   = number
+    site_prefix  = number
+    tier         = string
+    pinned_slots = list(list(number))
+  }))
+}
+
+variable "vlan_template" {
+  description = "VLAN positions inside a site: cidrsubnet(site_cidr, newbits, netnum)"
+  type = list(object({
+    vlan    = number
+    newbits = number
+    netnum  = number
+  }))
+}
+
+variable "tier_vlan_templates" {
+  description = "VLAN positions inside the sites of each site tier, keyed by tier name"
+  type = map(list(object({
+    vlan    = number
+    newbits = number
+    netnum  = number
+  })))
+  default = {}
+}
+
+variable "existing_sites" {
+  description = "Pinned brownfield sites; the planner places no new site in their slots"
+  type = map(object({
+    territory = string
+    cidr      = string
+  }))
+  default = {}
+}
+
+variable "site_lookups" {
+  description = "Planned sites to resolve, by territory key and 1-based slot index; slots held by existing sites are refused"
+  type = list(object({
+    territory = string
+    index     = number
+  }))
+  default = []
+
+  validation {
+    condition     = alltrue([for s in var.site_lookups : s.index >= 1])
+    error_message = "Site indexes are 1-based."
+  }
+}
+
+locals {
+  territory_prefix = {
+    for key, t in var.territories : key => tonumber(split("/", t.cidr)[1])
+  }
+
+  site_cidrs = {
+    for s in var.site_lookups : "\${s.territory}/\${s.index}" => cidrsubnet(
+      var.territories[s.territory].cidr,
+      var.territories[s.territory].site_prefix - local.territory_prefix[s.territory],
+      s.index - 1
+    )
+  }
+
+  # Sites of a site tier use the tier's VLAN template, all others the standard one
+  site_vlan_templates = {
+    for s in var.site_lookups : "\${s.territory}/\${s.index}" => (
+      var.territories[s.territory].tier == null
+      ? var.vlan_template
+      : var.tier_vlan_templates[var.territories[s.territory].tier]
+    )
+  }
+
+  # IPv6 sites sit at the same offset inside the mirrored territory, with one /64 per VLAN
+  site_ipv6_cidrs = {
+    for s in var.site_lookups : "\${s.territory}/\${s.index}" => (
+      var.territories[s.territory].ipv6_cidr == null ? null : cidrsubnet(
+        var.territories[s.territory].ipv6_cidr,
+        var.territories[s.territory].site_prefix - local.territory_prefix[s.territory],
+        s.index - 1
+      )
+    )
+  }
+}
+
+output "region_cidrs" {
+  value = { for key, r in var.regions : key => r.cidr }
+}
+
+output "territory_cidrs" {
+  value = { for key, t in var.territories : key => t.cidr }
+}
+
+output "sites" {
+  description = "Resolved site_lookups, keyed <territory>/<index>"
+
+  precondition {
+    condition = alltrue([
+      for s in var.site_lookups : alltrue([
+        for r in var.territories[s.territory].pinned_slots : s.index < r[0] || s.index > r[1]
+      ])
+    ])
+    error_message = "A site_lookups index points at a slot held by an existing site; see existing_sites."
+  }
+
+  value = {
+    for key, cidr in local.site_cidrs : key => {
+      cidr      = cidr
+      ipv6_cidr = local.site_ipv6_cidrs[key]
+      vlans = [
+        for v in local.site_vlan_templates[key] : {
+          vlan    = v.vlan
+          cidr    = cidrsubnet(cidr, v.newbits, v.netnum)
+          gateway = cidrhost(cidrsubnet(cidr, v.newbits, v.netnum), 1)
+          ipv6_cidr = local.site_ipv6_cidrs[key] == null ? null : cidrsubnet(
+            local.site_ipv6_cidrs[key],
+            64 - tonumber(split("/", local.site_ipv6_cidrs[key])[1]),
+            v.vlan - 1
+          )
+        }
+      ]
+    }
+  }
+}
+`;
+  }
+
+  static files(result: AllocationResult, vlanPrefixes: number[]): ExportFile[] {
+    return [
+      { name: "ipam.tf", content: this.module(result), mimeType: "text/plain" },
+      {
+        name: "ipam.auto.tfvars.json",
+        content: this.tfvarsJSON(result, vlanPrefixes),
+        mimeType: "application/json",
+      },
+    ];
+  }
+}
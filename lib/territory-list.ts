@@ -0,0 +1,39 @@
+// @/lib/territory-list.ts
+
+import type { TerritorySpec } from "./hierarchical-allocator";
+
+// One-line territory lists as typed in the form: comma-separated entries of
+// name, optional code and optional weight, e.g. "France:FR:2, Germany:DE, Spain"
+export class TerritoryList {
+  static parse(text: string): TerritorySpec[] {
+    return text
+      .split(/[,\n]/)
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const [name, code, weight] = entry.split(":").map((part) => part.trim());
+        if (!name) throw new Error(`Territory "${entry}" needs a name`);
+
+        const territory: TerritorySpec = { name };
+        if (code) territory.code = code;
+        if (weight) {
+          const value = Number(weight);
+          if (!Number.isInteger(value) || value < 1) {
+            throw new Error(`Territory "${name}" weight must be a whole number of at least 1`);
+          }
+          territory.weight = value;
+        }
+        return territory;
+      });
+  }
+
+  static format(territories: TerritorySpec[]): string {
+    return territories
+      .map((t) =>
+        [t.name, t.code ?? "", t.weight && t.weight !== 1 ? String(t.weight) : ""]
+          .join(":")
+          .replace(/:+$/, "")
+      )
+      .join(", ");
+  }
+}
@@ -4,3 +4,26 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// A generated file offered for download
+export interface ExportFile {
+  name: string
+  content: string
+  mimeType: string
+}
+
+// Save generated text as a file through a temporary object URL
+export function downloadFile(filename: string, content: string | Blob, mimeType = "text/plain") {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Filesystem-friendly form of a CIDR, e.g. "10.0.0.0/8" -> "10-0-0-0-8"
+export function fileSlug(cidr: string) {
+  return cidr.replace(/[^0-9a-zA-Z]+/g, "-").replace(/^-+|-+$/g, "")
+}
@@ -0,0 +1,119 @@
+// @/lib/zip-archive.ts
+
+import type { ExportFile } from "./utils";
+
+let crcTable: Uint32Array | null = null;
+
+// Minimal ZIP writer for multi-file exports. Entries are stored uncompressed,
+// which every unzip tool accepts and keeps the writer dependency-free.
+export class ZipArchive {
+  static create(files: Pick<ExportFile, "name" | "content">[]): Uint8Array {
+    const encoder = new TextEncoder();
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    const { time, date } = this.dosTimestamp(new Date());
+    let offset = 0;
+
+    for (const file of files) {
+      const name = encoder.encode(file.name);
+      const data = encoder.encode(file.content);
+      const crc = this.crc32(data);
+
+      const local = new DataView(new ArrayBuffer(30));
+      local.setUint32(0, 0x04034b50, true); // Local file header signature
+      local.setUint16(4, 20, true); // Version needed
+      local.setUint16(6, 0x0800, true); // UTF-8 file names
+      local.setUint16(8, 0, true); // Stored
+      local.setUint16(10, time, true);
+      local.setUint16(12, date, true);
+      local.setUint32(14, crc, true);
+      local.setUint32(18, data.length, true);
+      local.setUint32(22, data.length, true);
+      local.setUint16(26, name.length, true);
+      local.setUint16(28, 0, true);
+
+      const central = new DataView(new ArrayBuffer(46));
+      central.setUint32(0, 0x02014b50, true); // Central directory signature
+      central.setUint16(4, 20, true); // Version made by
+      central.setUint16(6, 20, true);
+      central.setUint16(8, 0x0800, true);
+      central.setUint16(10, 0, true);
+      central.setUint16(12, time, true);
+      central.setUint16(14, date, true);
+      central.setUint32(16, crc, true);
+      central.setUint32(20, data.length, true);
+      central.setUint32(24, data.length, true);
+      central.setUint16(28, name.length, true);
+      central.setUint32(42, offset, true); // Offset of the local header
+
+      localParts.push(new Uint8Array(local.buffer), name, data);
+      centralParts.push(new Uint8Array(central.buffer), name);
+      offset += 30 + name.length + data.length;
+    }
+
+    const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+    if (offset + centralSize > 0xffffffff) {
+      throw new Error("Archive is larger than 4 GB; export fewer sites per territory");
+    }
+
+    // More entries than the 16-bit counts hold need the ZIP64 end records;
+    // the classic record then carries 0xffff and readers take the ZIP64 counts
+    const zip64 = files.length > 0xffff;
+    const endParts: Uint8Array[] = [];
+    if (zip64) {
+      const record = new DataView(new ArrayBuffer(56));
+      record.setUint32(0, 0x06064b50, true); // ZIP64 end of central directory signature
+      record.setUint32(4, 44, true); // Size of the rest of the record
+      record.setUint16(12, 45, true); // Version made by
+      record.setUint16(14, 45, true); // Version needed
+      record.setUint32(24, files.length, true);
+      record.setUint32(32, files.length, true);
+      record.setUint32(40, centralSize, true);
+      record.setUint32(48, offset, true);
+
+      const locator = new DataView(new ArrayBuffer(20));
+      locator.setUint32(0, 0x07064b50, true); // ZIP64 end of central directory locator
+      locator.setUint32(8, offset + centralSize, true); // Offset of the ZIP64 record
+      locator.setUint32(16, 1, true); // Total disks
+      endParts.push(new Uint8Array(record.buffer), new Uint8Array(locator.buffer));
+    }
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true); // End of central directory signature
+    end.setUint16(8, zip64 ? 0xffff : files.length, true);
+    end.setUint16(10, zip64 ? 0xffff : files.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+    endParts.push(new Uint8Array(end.buffer));
+
+    const parts = [...localParts, ...centralParts, ...endParts];
+    const archive = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let position = 0;
+    for (const part of parts) {
+      archive.set(part, position);
+      position += part.length;
+    }
+    return archive;
+  }
+
+  private static crc32(data: Uint8Array): number {
+    if (!crcTable) {
+      crcTable = new Uint32Array(256);
+      for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        crcTable[n] = c >>> 0;
+      }
+    }
+    let crc = 0xffffffff;
+    for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+
+  private static dosTimestamp(when: Date): { time: number; date: number } {
+    return {
+      time: (when.getHours() << 11) | (when.getMinutes() << 5) | (when.getSeconds() >> 1),
+      date: ((when.getFullYear() - 1980) << 9) | ((when.getMonth() + 1) << 5) | when.getDate(),
+    };
+  }
+}